@@ -1,21 +1,461 @@
 import fs from 'node:fs/promises'
+import path from 'node:path'
 import express from 'express'
 import { Transform } from 'node:stream'
+import { WebSocketServer } from 'ws'
 
 // Constants
 const isProduction = process.env.NODE_ENV === 'production'
 const port = process.env.PORT || 5173
 const base = process.env.BASE || '/'
 const ABORT_DELAY = 10000
+const DEFAULT_BOARD_ID = 'default'
+const DEFAULT_BOARD_NAME = 'Meu Quadro'
+const DATA_FILE = process.env.DATA_FILE || './data/boards.json'
+const REQUIRED_COLLECTIONS = ['columns', 'cards', 'labels']
+const OPTIONAL_COLLECTIONS = ['members', 'lanes', 'views', 'activity']
+const COLLECTIONS = [...REQUIRED_COLLECTIONS, ...OPTIONAL_COLLECTIONS]
+const ID_PREFIXES = { columns: 'col', cards: 'card', labels: 'label', members: 'member', lanes: 'lane', views: 'view', activity: 'activity' }
+const LIVE_PATH = `${base}ws`
+const LABEL_COLORS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'gray']
 
 // Cached production assets
 const templateHtml = isProduction
   ? await fs.readFile('./dist/client/index.html', 'utf-8')
   : ''
 
+// Board store (JSON file on disk, cached in memory)
+/**
+ * @typedef {{ id: string, name: string, description: string, createdAt: number }} Board
+ * @typedef {{ columns: any[], cards: any[], labels: any[], members?: any[], lanes?: any[], views?: any[], activity?: any[] }} BoardData
+ * @type {{ boards: Record<string, Board>, boardData: Record<string, BoardData> }}
+ */
+const store = await loadStore()
+let pendingWrite = Promise.resolve()
+
+async function loadStore() {
+  let data = { boards: {}, boardData: {} }
+  try {
+    data = JSON.parse(await fs.readFile(DATA_FILE, 'utf-8'))
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error
+  }
+
+  // Older stores kept BoardData directly under `boards`, without metadata
+  if (!data.boardData) {
+    const legacy = data.boards
+    data = { boards: {}, boardData: legacy }
+    Object.keys(legacy).forEach((id) => {
+      data.boards[id] = createBoard(id, id === DEFAULT_BOARD_ID ? DEFAULT_BOARD_NAME : id)
+    })
+  }
+
+  if (Object.keys(data.boards).length === 0) {
+    data.boards[DEFAULT_BOARD_ID] = createBoard(DEFAULT_BOARD_ID, DEFAULT_BOARD_NAME)
+  }
+  return data
+}
+
+/** @returns {Board} */
+function createBoard(id, name, description = '') {
+  return { id, name, description, createdAt: Date.now() }
+}
+
+function listBoards() {
+  return Object.values(store.boards).sort((a, b) => a.createdAt - b.createdAt)
+}
+
+/**
+ * Write the store to disk, replacing the file atomically
+ */
+async function writeStore() {
+  const tmpFile = `${DATA_FILE}.tmp`
+  await fs.mkdir(path.dirname(DATA_FILE), { recursive: true })
+  await fs.writeFile(tmpFile, JSON.stringify(store, null, 2))
+  await fs.rename(tmpFile, DATA_FILE)
+}
+
+/**
+ * Change the store and persist it, one change at a time. A change whose write fails is
+ * rolled back, so memory never holds data the file doesn't, and later changes still run.
+ * Resolves with what `mutate` returns.
+ * @template T
+ * @param {() => T} mutate
+ * @returns {Promise<T>}
+ */
+function updateStore(mutate) {
+  const update = pendingWrite.catch(() => {}).then(async () => {
+    const previous = structuredClone(store)
+    try {
+      const result = mutate()
+      await writeStore()
+      return result
+    } catch (error) {
+      store.boards = previous.boards
+      store.boardData = previous.boardData
+      throw error
+    }
+  })
+  pendingWrite = update
+  return update
+}
+
+function generateId(prefix) {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Serialize state for an inline <script>, escaping characters that could close it
+ */
+function serializeState(state) {
+  return JSON.stringify(state)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+}
+
+function isBoardData(data) {
+  return (
+    data !== null &&
+    typeof data === 'object' &&
+    REQUIRED_COLLECTIONS.every((key) => Array.isArray(data[key])) &&
+    OPTIONAL_COLLECTIONS.every((key) => data[key] === undefined || Array.isArray(data[key]))
+  )
+}
+
+/**
+ * Keep only the known collections of a board payload
+ */
+function pickBoardData(data) {
+  return {
+    columns: data.columns,
+    cards: data.cards,
+    labels: data.labels,
+    members: data.members ?? [],
+    lanes: data.lanes ?? [],
+    views: data.views ?? [],
+    activity: data.activity ?? [],
+  }
+}
+
+/**
+ * Remove an entity and detach what referred to it; false when there was no such entity
+ */
+function deleteEntity(board, collection, id) {
+  const initialLength = board[collection].length
+  board[collection] = board[collection].filter((item) => item.id !== id)
+  if (board[collection].length === initialLength) return false
+
+  // Mirror KanbanModel cascades: a column owns its cards, labels, members and lanes are detached
+  if (collection === 'columns') {
+    board.cards = board.cards.filter((card) => card.columnId !== id)
+  } else if (collection === 'labels') {
+    board.cards.forEach((card) => {
+      card.labels = card.labels.filter((labelId) => labelId !== id)
+    })
+  } else if (collection === 'members') {
+    board.cards.forEach((card) => {
+      card.assignees = card.assignees?.filter((memberId) => memberId !== id)
+    })
+  } else if (collection === 'lanes') {
+    board.cards.forEach((card) => {
+      if (card.laneId === id) delete card.laneId
+    })
+  }
+  return true
+}
+
+// Live collaboration (WebSocket rooms, one per board)
+/**
+ * @typedef {{ clientId: string, name: string, initials: string, color: string }} PresenceUser
+ * @typedef {import('ws').WebSocket & { clientId: string, user: PresenceUser | null }} LiveSocket
+ * @type {Map<string, Set<LiveSocket>>}
+ */
+const rooms = new Map()
+const wss = new WebSocketServer({ noServer: true })
+
+function broadcast(boardId, message) {
+  const payload = JSON.stringify(message)
+  rooms.get(boardId)?.forEach((socket) => {
+    if (socket.readyState === socket.OPEN) socket.send(payload)
+  })
+}
+
+function broadcastPresence(boardId) {
+  const users = [...(rooms.get(boardId) ?? [])].filter((socket) => socket.user).map((socket) => socket.user)
+  broadcast(boardId, { type: 'presence', users })
+}
+
+/**
+ * Tell live clients their board was deleted and close its room
+ */
+function closeRoom(boardId) {
+  broadcast(boardId, { type: 'deleted' })
+  rooms.get(boardId)?.forEach((socket) => socket.close())
+  rooms.delete(boardId)
+}
+
+/**
+ * Tell live clients a board was rewritten outside of the op stream (REST writes)
+ */
+function broadcastSnapshot(boardId) {
+  broadcast(boardId, { type: 'snapshot', data: store.boardData[boardId] ?? null })
+}
+
+function toPresenceUser(clientId, user) {
+  const name = typeof user?.name === 'string' && user.name.trim() ? user.name.trim().slice(0, 60) : 'Visitante'
+  return {
+    clientId,
+    name,
+    initials: typeof user?.initials === 'string' ? user.initials.slice(0, 3) : name.slice(0, 2).toUpperCase(),
+    color: LABEL_COLORS.includes(user?.color) ? user.color : 'gray',
+  }
+}
+
+function isPlainObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function sendError(socket, message) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify({ type: 'error', message }))
+}
+
+function isValidOp(op) {
+  if (!op || !COLLECTIONS.includes(op.collection) || typeof op.id !== 'string') return false
+  if (op.type === 'put') return op.entity !== null && typeof op.entity === 'object' && op.entity.id === op.id
+  if (op.type === 'patch') return op.changes !== null && typeof op.changes === 'object'
+  return op.type === 'delete'
+}
+
+/**
+ * Apply a batch of client operations (same rules as applyBoardOps in App.tsx):
+ * put inserts or replaces, patch sets fields (null removes them) and is dropped
+ * if the entity was deleted, delete removes. Ops are applied in arrival order,
+ * so every client that replays the broadcast stream ends up with the same board.
+ * Returns false, changing nothing, when the board no longer exists.
+ */
+function applyOps(boardId, ops) {
+  if (!store.boards[boardId]) return false
+  const board = (store.boardData[boardId] ??= { columns: [], cards: [], labels: [], members: [], lanes: [] })
+  ops.filter(isValidOp).forEach((op) => {
+    const items = (board[op.collection] ??= [])
+    const index = items.findIndex((item) => item.id === op.id)
+    if (op.type === 'put') {
+      if (index === -1) items.push(op.entity)
+      else items[index] = op.entity
+    } else if (op.type === 'patch') {
+      if (index === -1) return
+      Object.entries(op.changes).forEach(([key, value]) => {
+        if (key === 'id') return
+        if (value === null) delete items[index][key]
+        else items[index][key] = value
+      })
+    } else if (index !== -1) {
+      items.splice(index, 1)
+    }
+  })
+  return true
+}
+
+/**
+ * @param {LiveSocket} socket
+ * @param {string} boardId
+ */
+function joinRoom(socket, boardId) {
+  socket.clientId = generateId('client')
+  socket.user = null
+  if (!rooms.has(boardId)) rooms.set(boardId, new Set())
+  rooms.get(boardId).add(socket)
+
+  socket.on('message', async (raw) => {
+    try {
+      await handleLiveMessage(socket, boardId, raw)
+    } catch (error) {
+      console.error(`Live message for board ${boardId} failed:`, error)
+      sendError(socket, 'Could not process message')
+    }
+  })
+
+  socket.on('close', () => {
+    rooms.get(boardId)?.delete(socket)
+    if (rooms.get(boardId)?.size === 0) rooms.delete(boardId)
+    broadcastPresence(boardId)
+  })
+}
+
+/**
+ * Handle one client message; anything that is not a JSON object with a string type is answered with an error
+ * @param {LiveSocket} socket
+ * @param {string} boardId
+ */
+async function handleLiveMessage(socket, boardId, raw) {
+  let message
+  try {
+    message = JSON.parse(raw.toString())
+  } catch {
+    return sendError(socket, 'Invalid JSON')
+  }
+  if (!isPlainObject(message) || typeof message.type !== 'string') {
+    return sendError(socket, 'Invalid message')
+  }
+
+  if (message.type === 'hello') {
+    socket.user = toPresenceUser(socket.clientId, message.user)
+    socket.send(JSON.stringify({
+      type: 'welcome',
+      clientId: socket.clientId,
+      data: store.boardData[boardId] ?? null,
+    }))
+    broadcastPresence(boardId)
+  } else if (message.type === 'presence') {
+    socket.user = toPresenceUser(socket.clientId, message.user)
+    broadcastPresence(boardId)
+  } else if (message.type === 'ops') {
+    if (!Array.isArray(message.ops)) return sendError(socket, 'ops must be an array')
+    const applied = await updateStore(() => applyOps(boardId, message.ops))
+    if (!applied) return sendError(socket, 'Board not found')
+    broadcast(boardId, {
+      type: 'ops',
+      clientId: socket.clientId,
+      batchId: message.batchId,
+      ops: message.ops.filter(isValidOp),
+    })
+  } else {
+    sendError(socket, `Unknown message type: ${message.type}`)
+  }
+}
+
 // Create http server
 const app = express()
 
+// REST API
+const api = express.Router()
+api.use(express.json({ limit: '5mb' }))
+
+api.param('boardId', (req, res, next, boardId) => {
+  req.board = store.boards[boardId]
+  if (!req.board) return res.status(404).json({ error: 'Board not found' })
+  req.boardData = store.boardData[boardId]
+  next()
+})
+
+api.param('collection', (req, res, next, collection) => {
+  if (!COLLECTIONS.includes(collection)) {
+    return res.status(400).json({ error: `Unknown collection: ${collection}` })
+  }
+  if (!req.boardData) return res.status(404).json({ error: 'Board has no data yet' })
+  req.boardData[collection] ??= []
+  next()
+})
+
+api.get('/boards', (req, res) => {
+  res.json(listBoards())
+})
+
+api.post('/boards', async (req, res) => {
+  const { name, description = '', data } = req.body ?? {}
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'Board name is required' })
+  }
+  if (data !== undefined && !isBoardData(data)) {
+    return res.status(400).json({ error: 'Board must have columns, cards and labels arrays' })
+  }
+  const board = createBoard(generateId('board'), name.trim(), String(description))
+  await updateStore(() => {
+    store.boards[board.id] = board
+    store.boardData[board.id] = data
+      ? pickBoardData(data)
+      : { columns: [], cards: [], labels: [], members: [], lanes: [] }
+  })
+  res.status(201).json(board)
+})
+
+api.patch('/boards/:boardId', async (req, res) => {
+  const { name, description } = req.body ?? {}
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return res.status(400).json({ error: 'Board name cannot be empty' })
+  }
+  const board = await updateStore(() => {
+    const board = store.boards[req.params.boardId]
+    if (!board) return null
+    if (name !== undefined) board.name = name.trim()
+    if (description !== undefined) board.description = String(description)
+    return board
+  })
+  if (!board) return res.status(404).json({ error: 'Board not found' })
+  res.json(board)
+})
+
+api.get('/boards/:boardId', (req, res) => {
+  if (!req.boardData) return res.status(404).json({ error: 'Board has no data yet' })
+  res.json(req.boardData)
+})
+
+api.put('/boards/:boardId', async (req, res) => {
+  if (!isBoardData(req.body)) {
+    return res.status(400).json({ error: 'Board must have columns, cards and labels arrays' })
+  }
+  const data = await updateStore(() => (store.boardData[req.params.boardId] = pickBoardData(req.body)))
+  broadcastSnapshot(req.params.boardId)
+  res.json(data)
+})
+
+api.delete('/boards/:boardId', async (req, res) => {
+  await updateStore(() => {
+    delete store.boards[req.params.boardId]
+    delete store.boardData[req.params.boardId]
+  })
+  closeRoom(req.params.boardId)
+  res.status(204).end()
+})
+
+api.get('/boards/:boardId/:collection', (req, res) => {
+  res.json(req.boardData[req.params.collection])
+})
+
+api.post('/boards/:boardId/:collection', async (req, res) => {
+  const { collection } = req.params
+  const body = req.body ?? {}
+  if (!isPlainObject(body)) return res.status(400).json({ error: 'Body must be a JSON object' })
+  const entity = { ...body, id: body.id || generateId(ID_PREFIXES[collection]) }
+  const added = await updateStore(() => {
+    const items = (store.boardData[req.params.boardId][collection] ??= [])
+    if (items.some((item) => item.id === entity.id)) return false
+    items.push(entity)
+    return true
+  })
+  if (!added) return res.status(409).json({ error: `Duplicate id: ${entity.id}` })
+  broadcastSnapshot(req.params.boardId)
+  res.status(201).json(entity)
+})
+
+api.put('/boards/:boardId/:collection/:id', async (req, res) => {
+  const updated = await updateStore(() => {
+    const items = store.boardData[req.params.boardId][req.params.collection] ?? []
+    const index = items.findIndex((item) => item.id === req.params.id)
+    if (index === -1) return null
+    items[index] = { ...items[index], ...req.body, id: req.params.id }
+    return items[index]
+  })
+  if (!updated) return res.status(404).json({ error: 'Not found' })
+  broadcastSnapshot(req.params.boardId)
+  res.json(updated)
+})
+
+api.delete('/boards/:boardId/:collection/:id', async (req, res) => {
+  const { collection, id } = req.params
+  const deleted = await updateStore(() => deleteEntity(store.boardData[req.params.boardId], collection, id))
+  if (!deleted) return res.status(404).json({ error: 'Not found' })
+  broadcastSnapshot(req.params.boardId)
+  res.status(204).end()
+})
+
+api.use((req, res) => {
+  res.status(404).json({ error: 'Not found' })
+})
+
+app.use('/api', api)
+
 // Add Vite or respective production middlewares
 /** @type {import('vite').ViteDevServer | undefined} */
 let vite
@@ -41,31 +481,44 @@ app.use('*all', async (req, res) => {
 
     /** @type {string} */
     let template
-    /** @type {import('./src/entry-server.ts').render} */
-    let render
+    /** @type {typeof import('./src/entry-server.tsx')} */
+    let entry
     if (!isProduction) {
       // Always read fresh template in development
       template = await fs.readFile('./index.html', 'utf-8')
       template = await vite.transformIndexHtml(url, template)
-      render = (await vite.ssrLoadModule('/src/entry-server.tsx')).render
+      entry = await vite.ssrLoadModule('/src/entry-server.tsx')
     } else {
       template = templateHtml
-      render = (await import('./dist/server/entry-server.js')).render
+      entry = await import('./dist/server/entry-server.js')
+    }
+    const { render, parseRoute } = entry
+
+    // Load the board the URL points at so the first paint is the real board
+    const route = parseRoute(url)
+    const boardMissing = route.name === 'board' && !store.boards[route.boardId]
+    const initialState = {
+      boards: listBoards(),
+      boardData: route.name === 'board' ? store.boardData[route.boardId] ?? null : null,
     }
 
     let didError = false
 
-    const { pipe, abort } = render(url, {
+    const { pipe, abort } = render(url, initialState, {
       onShellError() {
         res.status(500)
         res.set({ 'Content-Type': 'text/html' })
         res.send('<h1>Something went wrong</h1>')
       },
       onShellReady() {
-        res.status(didError ? 500 : 200)
+        res.status(didError ? 500 : boardMissing ? 404 : 200)
         res.set({ 'Content-Type': 'text/html' })
 
-        const [htmlStart, htmlEnd] = template.split(`<!--app-html-->`)
+        const [htmlStart, htmlTail] = template.split(`<!--app-html-->`)
+        const htmlEnd = htmlTail.replace(
+          `<!--app-state-->`,
+          `<script>window.__INITIAL_STATE__ = ${serializeState(initialState)}</script>`,
+        )
 
         const transformStream = new Transform({
           transform(chunk, encoding, callback) {
@@ -96,6 +549,18 @@ app.use('*all', async (req, res) => {
 })
 
 // Start http server
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`Server started at http://localhost:${port}`)
 })
+
+server.on('upgrade', (req, socket, head) => {
+  const { pathname, searchParams } = new URL(req.url, 'http://localhost')
+  if (pathname !== LIVE_PATH) return
+
+  const boardId = searchParams.get('board')
+  if (!boardId || !store.boards[boardId]) {
+    socket.write('HTTP/1.1 404 Not Found\r\n\r\n')
+    return socket.destroy()
+  }
+  wss.handleUpgrade(req, socket, head, (ws) => joinRoom(ws, boardId))
+})
@@ -12,6 +12,42 @@ interface Label {
   color: LabelColor;
 }
 
+interface Member {
+  id: string;
+  name: string;
+  initials: string;
+  color: LabelColor;
+}
+
+interface Lane {
+  id: string;
+  title: string;
+  order: number;
+}
+
+type Priority = 'urgent' | 'high' | 'medium' | 'low';
+
+interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+interface Checklist {
+  id: string;
+  title: string;
+  items: ChecklistItem[]; // Display order
+}
+
+interface Comment {
+  id: string;
+  author: string; // Name at the time of writing
+  authorId?: string; // Member ID, when the author had picked who "me" is
+  body: string;
+  createdAt: number;
+  updatedAt?: number; // Set once the comment has been edited
+}
+
 interface Card {
   id: string;
   title: string;
@@ -20,19 +56,236 @@ interface Card {
   labels: string[]; // Label IDs
   order: number;
   createdAt: number;
+  startDate?: string; // YYYY-MM-DD (local calendar date)
+  dueDate?: string; // YYYY-MM-DD (local calendar date)
+  checklists?: Checklist[];
+  assignees?: string[]; // Member IDs
+  priority?: Priority;
+  laneId?: string; // User-defined swimlane
+  comments?: Comment[]; // Oldest first
 }
 
+// 'warn' only highlights a full column, 'block' rejects cards beyond the limit
+type WipMode = 'warn' | 'block';
+
 interface Column {
   id: string;
   title: string;
   order: number;
   color: string;
+  wipLimit?: number;
+  wipMode?: WipMode;
 }
 
-interface BoardData {
+export interface BoardData {
   columns: Column[];
   cards: Card[];
   labels: Label[];
+  members?: Member[];
+  lanes?: Lane[];
+  views?: SavedView[];
+  activity?: ActivityEvent[]; // Oldest first
+}
+
+export interface Board {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: number;
+}
+
+type BoardDetails = Pick<Board, 'name' | 'description'>;
+
+export type Route =
+  | { name: 'boards' }
+  | { name: 'board'; boardId: string };
+
+export interface InitialState {
+  boards: Board[];
+  boardData: BoardData | null;
+}
+
+// Versioned file written by "Exportar" and read back by "Importar"
+interface BoardExport {
+  format: 'kanban-board';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  board: BoardDetails;
+  data: BoardData;
+}
+
+type BoardExportParseResult =
+  | { ok: true; file: BoardExport }
+  | { ok: false; errors: string[] };
+
+// What to do with imported entities whose id already exists on the board
+type ImportConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+interface ImportResult {
+  added: number;
+  replaced: number;
+  skipped: number;
+}
+
+type ExportFormat = 'json' | 'csv' | 'markdown';
+
+// Cards of one column, as exported to CSV or Markdown
+interface ColumnCards {
+  column: Column;
+  cards: Card[];
+}
+
+// Board read from another tool (Trello, a spreadsheet), matched against the open board by name
+interface ExternalCard {
+  title: string;
+  description: string;
+  columnTitle: string;
+  labelNames: string[];
+  startDate?: string;
+  dueDate?: string;
+  checklists?: Checklist[];
+}
+
+interface ExternalBoard {
+  source: 'trello' | 'csv';
+  columns: { title: string; color?: string }[];
+  labels: { name: string; color: LabelColor }[];
+  cards: ExternalCard[];
+  warnings: string[]; // Rows or items that were skipped or adjusted
+}
+
+type ExternalBoardParseResult =
+  | { ok: true; board: ExternalBoard }
+  | { ok: false; errors: string[] };
+
+interface ExternalImportResult {
+  cards: number;
+  columns: number; // Columns created
+  labels: number; // Labels created
+}
+
+type BoardCollection = keyof BoardData;
+
+// One change to a board entity, as sent to and broadcast by the live collaboration server
+type BoardOp =
+  | { type: 'put'; collection: BoardCollection; id: string; entity: { id: string } }
+  | { type: 'patch'; collection: BoardCollection; id: string; changes: Record<string, unknown> } // null removes a field
+  | { type: 'delete'; collection: BoardCollection; id: string };
+
+interface PresenceUser {
+  clientId: string;
+  name: string;
+  initials: string;
+  color: LabelColor;
+}
+
+type LiveServerMessage =
+  | { type: 'welcome'; clientId: string; data: BoardData | null }
+  | { type: 'ops'; clientId: string; batchId: string; ops: BoardOp[] }
+  | { type: 'snapshot'; data: BoardData | null }
+  | { type: 'presence'; users: PresenceUser[] }
+  | { type: 'deleted' } // The board was deleted; the server closes the room
+  | { type: 'error'; message: string };
+
+// Sent to the browser's other tabs after a save
+type TabSyncMessage = { type: 'boards' } | { type: 'board'; boardId: string };
+
+interface PersistenceAdapter {
+  listBoards(): Promise<Board[]>;
+  createBoard(details: BoardDetails, data: BoardData): Promise<Board>;
+  updateBoard(id: string, updates: Partial<BoardDetails>): Promise<Board | null>;
+  deleteBoard(id: string): Promise<void>;
+  load(boardId: string): Promise<BoardData | null>;
+  save(boardId: string, data: BoardData): Promise<void>;
+  // Adapters that queue writes report whether they reached the server; the listener is called right away
+  subscribeSyncStatus?(listener: (status: SyncStatus) => void): () => void;
+}
+
+type SyncStatus = 'offline' | 'syncing' | 'synced' | 'error';
+
+type IdbStoreName = 'boards' | 'boardData' | 'entities' | 'outbox';
+
+// One board entity stored as its own IndexedDB record
+interface StoredEntity {
+  boardId: string;
+  collection: BoardCollection;
+  id: string;
+  position: number;
+  entity: { id: string };
+}
+
+// A board save waiting to be sent to the server
+interface OutboxEntry {
+  seq?: number;
+  boardId: string;
+  data: BoardData;
+  queuedAt: number;
+  error?: string; // Why the server rejected it; kept, not resent, until the board is saved again
+}
+
+type DueStatus = 'overdue' | 'today' | 'upcoming' | 'scheduled';
+
+type DueFilter = 'all' | 'overdue' | 'week';
+
+// 'all', 'me', 'unassigned' or a member ID
+type AssigneeFilter = string;
+
+// How selected labels combine: cards with any of them, with all of them, or with none of them
+type LabelMatchMode = 'any' | 'all' | 'exclude';
+
+// Filter state of a board, as encoded in its URL query string
+interface BoardFilters {
+  search: string;
+  labels: string[]; // Label IDs, or NO_LABEL_FILTER for cards without labels
+  labelMode: LabelMatchMode;
+  due: DueFilter;
+  assignee: AssigneeFilter;
+}
+
+// Named set of filters shared by everyone on the board; pinned views show in the filter bar
+interface SavedView {
+  id: string;
+  name: string;
+  filters: BoardFilters;
+  pinned: boolean;
+}
+
+type SearchField = 'text' | 'label' | 'column' | 'assignee' | 'due' | 'priority' | 'lane';
+
+// One term of a search query, e.g. `-label:Bug`; start/end locate it in the query text
+interface SearchTerm {
+  field: SearchField;
+  value: string;
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+interface SearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+interface ParsedSearchQuery {
+  terms: SearchTerm[]; // All must match
+  errors: SearchQueryError[]; // Invalid terms, left out of `terms`
+}
+
+// `due:` values: a status keyword, or a comparison against a date or a number of days from today
+type DueQuery =
+  | { type: 'status'; status: 'overdue' | 'today' | 'week' | 'none' }
+  | { type: 'compare'; operator: '<' | '<=' | '>' | '>=' | '='; date: string }
+  | { type: 'compare'; operator: '<' | '<=' | '>' | '>=' | '='; days: number };
+
+// How cards are split into horizontal lanes ('none' shows a single row of columns)
+type SwimlaneMode = 'none' | 'lanes' | 'label' | 'assignee' | 'priority';
+
+interface Swimlane {
+  key: string; // Lane, label, member or priority the lane groups by; '' collects the rest
+  title: string;
+  color?: string;
+  editable: boolean;
 }
 
 interface DragState {
@@ -41,12 +294,263 @@ interface DragState {
   isDragging: boolean;
 }
 
+type HistoryAction =
+  | 'column.add' | 'column.update' | 'column.delete' | 'column.reorder'
+  | 'card.add' | 'card.update' | 'card.delete' | 'card.move'
+  | 'label.add' | 'label.update' | 'label.delete'
+  | 'member.add' | 'member.update' | 'member.delete'
+  | 'lane.add' | 'lane.update' | 'lane.delete'
+  | 'comment.add' | 'comment.update' | 'comment.delete'
+  | 'view.add' | 'view.update' | 'view.delete'
+  | 'board.import';
+
+type ActivityType = HistoryAction | 'history.undo' | 'history.redo';
+
+interface ActivityChange {
+  collection: BoardCollection;
+  id: string;
+  field?: string; // Absent when the whole entity was created or deleted
+  before?: unknown;
+  after?: unknown;
+}
+
+// One mutation made through the controller, kept in the board's audit log
+interface ActivityEvent {
+  id: string;
+  type: ActivityType;
+  entityId?: string;
+  description: string;
+  changes: ActivityChange[];
+  timestamp: number;
+  actor: string; // Name of the member acting as "me" when the change was made
+}
+
+interface HistoryEntry {
+  action: HistoryAction;
+  entityId?: string; // Card, column or label the entry changed
+  description: string;
+  ops: BoardOp[]; // Turn the current board back into the state this entry restores
+  timestamp: number;
+}
+
+interface DropTarget {
+  columnId: string;
+  laneKey?: string; // Swimlane the card is dropped into, when swimlanes are shown
+  index: number; // Insertion index among the column's displayed cards
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
 const isClient = typeof window !== 'undefined';
 
+const BASE_URL = import.meta.env.BASE_URL;
+
+const HISTORY_LIMIT = 50;
+
+const ACTIVITY_LIMIT = 500;
+
+const ACTIVITY_MAX_CHANGES = 50;
+
+// Fields rewritten as a side effect of other changes (reordering), left out of the activity log
+const ACTIVITY_IGNORED_FIELDS = ['order'];
+
+const ANONYMOUS_ACTOR = 'Visitante';
+
+const ACTIVITY_COLLECTION_LABELS: Record<BoardCollection, string> = {
+  columns: 'coluna',
+  cards: 'card',
+  labels: 'label',
+  members: 'membro',
+  lanes: 'raia',
+  views: 'visão',
+  activity: 'atividade',
+};
+
+const ACTIVITY_FIELD_LABELS: Record<string, string> = {
+  title: 'Título',
+  name: 'Nome',
+  description: 'Descrição',
+  columnId: 'Coluna',
+  labels: 'Labels',
+  startDate: 'Início',
+  dueDate: 'Prazo',
+  checklists: 'Checklists',
+  assignees: 'Responsáveis',
+  priority: 'Prioridade',
+  laneId: 'Raia',
+  color: 'Cor',
+  initials: 'Iniciais',
+  wipLimit: 'Limite WIP',
+  wipMode: 'Modo WIP',
+  comments: 'Comentários',
+  filters: 'Filtros',
+  pinned: 'Fixada',
+};
+
+const DUE_SOON_DAYS = 3;
+
+const DUE_STATUS_LABELS: Record<DueStatus, string> = {
+  overdue: 'Atrasado',
+  today: 'Vence hoje',
+  upcoming: 'Vence em breve',
+  scheduled: 'Prazo',
+};
+
+const PRIORITY_OPTIONS: { value: Priority; label: string; color: string }[] = [
+  { value: 'urgent', label: 'Urgente', color: '#ef4444' },
+  { value: 'high', label: 'Alta', color: '#f97316' },
+  { value: 'medium', label: 'Média', color: '#eab308' },
+  { value: 'low', label: 'Baixa', color: '#64748b' },
+];
+
+// Field names accepted in the search box, in English and Portuguese (compared without accents)
+const SEARCH_FIELD_ALIASES: Record<string, Exclude<SearchField, 'text'>> = {
+  label: 'label',
+  column: 'column',
+  coluna: 'column',
+  assignee: 'assignee',
+  responsavel: 'assignee',
+  due: 'due',
+  prazo: 'due',
+  priority: 'priority',
+  prioridade: 'priority',
+  lane: 'lane',
+  raia: 'lane',
+};
+
+// Pseudo label ID in label filters that stands for "card has no labels"
+const NO_LABEL_FILTER = 'none';
+
+const LABEL_MATCH_MODE_LABELS: Record<LabelMatchMode, string> = {
+  any: 'Qualquer',
+  all: 'Todas',
+  exclude: 'Exceto',
+};
+
+const EMPTY_FILTERS: BoardFilters = Object.freeze({
+  search: '',
+  labels: [],
+  labelMode: 'any',
+  due: 'all',
+  assignee: 'all',
+}) as BoardFilters;
+
+const SEARCH_NONE_VALUES = ['none', 'nenhum', 'nenhuma'];
+
+// Search words matching the start of no word on the board tolerate one typo from this length on, two from the long length
+const SEARCH_FUZZY_MIN_LENGTH = 6;
+const SEARCH_FUZZY_LONG_LENGTH = 9;
+
+// Accented forms a highlighted letter may take, so "acao" also highlights "ação"
+const SEARCH_ACCENT_VARIANTS: Record<string, string> = {
+  a: 'aáàâãä',
+  e: 'eéèêë',
+  i: 'iíìîï',
+  o: 'oóòôõö',
+  u: 'uúùûü',
+  c: 'cç',
+  n: 'nñ',
+};
+
+const SWIMLANE_MODE_LABELS: Record<SwimlaneMode, string> = {
+  none: 'Sem raias',
+  lanes: 'Raias personalizadas',
+  label: 'Por label',
+  assignee: 'Por responsável',
+  priority: 'Por prioridade',
+};
+
+const COLUMN_DRAG_TYPE = 'application/x-kanban-column';
+
+// Listed in the help overlay opened with "?"
+const KEYBOARD_SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ['←', '↑', '→', '↓'], description: 'Navegar entre cards e colunas' },
+  { keys: ['Enter'], description: 'Abrir o card selecionado' },
+  { keys: ['E'], description: 'Editar o título do card selecionado' },
+  { keys: ['Shift + ↑', 'Shift + ↓'], description: 'Mover o card na coluna' },
+  { keys: ['Shift + ←', 'Shift + →'], description: 'Mover o card para a coluna ao lado' },
+  { keys: ['N'], description: 'Novo card na coluna atual' },
+  { keys: ['/'], description: 'Buscar cards' },
+  { keys: ['Ctrl + Z', 'Ctrl + Shift + Z'], description: 'Desfazer / refazer' },
+  { keys: ['?'], description: 'Mostrar ou ocultar os atalhos' },
+];
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  offline: 'Offline',
+  syncing: 'Sincronizando',
+  synced: 'Sincronizado',
+  error: 'Não sincronizado',
+};
+
+const SYNC_STATUS_TITLES: Record<SyncStatus, string> = {
+  offline: 'Sem conexão: as alterações ficam salvas neste navegador e serão enviadas quando a conexão voltar',
+  syncing: 'Enviando alterações pendentes ao servidor',
+  synced: 'Todas as alterações foram salvas no servidor',
+  error: 'O servidor recusou alterações salvas neste navegador; elas serão enviadas de novo na próxima alteração do quadro',
+};
+
+// A record rather than a list, so a collection added to BoardData fails to compile until it is
+// listed here; anything missing would be dropped when boards are stored per entity and loaded back
+const BOARD_COLLECTION_ORDER: Record<BoardCollection, number> = {
+  columns: 0,
+  cards: 1,
+  labels: 2,
+  members: 3,
+  lanes: 4,
+  views: 5,
+  activity: 6,
+};
+
+const BOARD_COLLECTIONS = (Object.keys(BOARD_COLLECTION_ORDER) as BoardCollection[])
+  .sort((a, b) => BOARD_COLLECTION_ORDER[a] - BOARD_COLLECTION_ORDER[b]);
+
+const LIVE_RECONNECT_MAX_DELAY = 10000;
+
+const EXPORT_FORMAT = 'kanban-board';
+const EXPORT_VERSION = 1;
+
+const IMPORTED_COLUMN_COLOR = '#64748b';
+const IMPORTED_COLUMN_FALLBACK = 'Importados';
+
+// Trello also has "_light"/"_dark" variants of each color, which are stripped before lookup
+const TRELLO_LABEL_COLORS: Record<string, LabelColor> = {
+  green: 'green',
+  yellow: 'yellow',
+  orange: 'orange',
+  red: 'red',
+  purple: 'purple',
+  blue: 'blue',
+  sky: 'blue',
+  lime: 'green',
+  pink: 'pink',
+  black: 'gray',
+};
+
+// CSV values a spreadsheet would run as a formula; exports prefix them with ' and imports drop it.
+// A leading "-" only counts before a number or another formula character, so Markdown lists stay as they are.
+const CSV_FORMULA_PATTERN = /^(?:[=+@\t\r]|-[\d.=+\-@(])/;
+
+// Accepted CSV header names (compared without case or accents)
+const CSV_COLUMNS = {
+  title: ['title', 'titulo', 'nome', 'name'],
+  description: ['description', 'descricao', 'desc'],
+  column: ['column', 'coluna', 'lista', 'list', 'status'],
+  labels: ['labels', 'label', 'etiquetas', 'tags'],
+};
+
+const IMPORT_CONFLICT_LABELS: Record<ImportConflictStrategy, string> = {
+  skip: 'Manter os itens existentes',
+  overwrite: 'Substituir pelos itens importados',
+  duplicate: 'Importar como cópias (novos IDs)',
+};
+
+const DEFAULT_BOARD_ID = 'default';
+const DEFAULT_BOARD_NAME = 'Meu Quadro';
+
+const PERSISTENCE_MODE = import.meta.env.VITE_PERSISTENCE ?? 'api';
+
 const DEFAULT_LABELS: Label[] = [
   { id: 'label_1', name: 'Urgente', color: 'red' },
   { id: 'label_2', name: 'Bug', color: 'orange' },
@@ -81,28 +585,44 @@ const LABEL_COLORS: Record<LabelColor, string> = {
 class StorageService {
   private static readonly STORAGE_KEYS = Object.freeze({
     DARK_MODE: 'kanban_darkMode',
+    BOARDS: 'kanban_boards',
     BOARD_DATA: 'kanban_boardData',
+    HISTORY: 'kanban_history',
+    CURRENT_MEMBER: 'kanban_currentMember',
+    SWIMLANES: 'kanban_swimlanes',
   });
 
   /**
-   * Save data to sessionStorage (client-side only)
+   * Boards live in localStorage, shared by every tab of the browser; history and
+   * view preferences stay in the tab's sessionStorage
    */
-  static saveToStorage(key: string, value: any): void {
-    if (!isClient) return;
+  private static getStorage(key: string): Storage {
+    return this.getBoardIdFromKey(key) !== null || key === this.STORAGE_KEYS.BOARDS
+      ? localStorage
+      : sessionStorage;
+  }
+
+  /**
+   * Save data to browser storage (client-side only); false when the browser refused it, e.g. over quota
+   */
+  static saveToStorage(key: string, value: any): boolean {
+    if (!isClient) return true;
     try {
-      sessionStorage.setItem(key, JSON.stringify(value));
+      this.getStorage(key).setItem(key, JSON.stringify(value));
+      return true;
     } catch (error) {
       console.error(`Error saving ${key} to storage:`, error);
+      return false;
     }
   }
 
   /**
-   * Load data from sessionStorage with default fallback (client-side only)
+   * Load data from browser storage with default fallback (client-side only)
    */
   static loadFromStorage<T>(key: string, defaultValue: T): T {
     if (!isClient) return defaultValue;
     try {
-      const saved = sessionStorage.getItem(key);
+      const saved = this.getStorage(key).getItem(key);
       return saved ? JSON.parse(saved) : defaultValue;
     } catch (error) {
       console.error(`Error loading ${key} from storage:`, error);
@@ -110,14 +630,29 @@ class StorageService {
     }
   }
 
+  /**
+   * Remove a single key from browser storage (client-side only)
+   */
+  static removeFromStorage(key: string): void {
+    if (!isClient) return;
+    try {
+      this.getStorage(key).removeItem(key);
+    } catch (error) {
+      console.error(`Error removing ${key} from storage:`, error);
+    }
+  }
+
   /**
    * Clear all app data from storage (client-side only)
    */
   static clearStorage(): void {
     if (!isClient) return;
     try {
-      sessionStorage.removeItem(this.STORAGE_KEYS.DARK_MODE);
-      sessionStorage.removeItem(this.STORAGE_KEYS.BOARD_DATA);
+      [localStorage, sessionStorage].forEach(storage => {
+        Object.keys(storage)
+          .filter(key => key.startsWith('kanban_'))
+          .forEach(key => storage.removeItem(key));
+      });
     } catch (error) {
       console.error('Error clearing storage:', error);
     }
@@ -129,2028 +664,9238 @@ class StorageService {
   static getKeys() {
     return this.STORAGE_KEYS;
   }
-}
-
-// ============================================================================
-// MODEL LAYER
-// ============================================================================
-
-/**
- * Kanban Board Model - Handles data structure and business logic
- */
-class KanbanModel {
-  private columns: Column[];
-  private cards: Card[];
-  private labels: Label[];
 
-  constructor(initialData?: BoardData) {
-    this.columns = initialData?.columns || [...DEFAULT_COLUMNS];
-    this.cards = initialData?.cards || [];
-    this.labels = initialData?.labels || [...DEFAULT_LABELS];
+  /**
+   * Get the storage key holding a board's columns, cards and labels
+   */
+  static getBoardDataKey(boardId: string): string {
+    return `${this.STORAGE_KEYS.BOARD_DATA}_${boardId}`;
   }
 
   /**
-   * Get all board data
+   * Get the board whose data a storage key holds, or null for any other key
    */
-  getAllData(): BoardData {
-    return {
-      columns: [...this.columns],
-      cards: [...this.cards],
-      labels: [...this.labels],
-    };
+  static getBoardIdFromKey(key: string): string | null {
+    const prefix = `${this.STORAGE_KEYS.BOARD_DATA}_`;
+    return key.startsWith(prefix) ? key.slice(prefix.length) : null;
   }
 
-  // ==================== COLUMN OPERATIONS ====================
-
   /**
-   * Get all columns sorted by order
+   * Get the storage key holding a board's undo/redo history
    */
-  getColumns(): Column[] {
-    return [...this.columns].sort((a, b) => a.order - b.order);
+  static getHistoryKey(boardId: string): string {
+    return `${this.STORAGE_KEYS.HISTORY}_${boardId}`;
   }
 
   /**
-   * Add new column
+   * Get the storage key holding which member of a board "me" is
    */
-  addColumn(title: string, color: string): Column {
-    const newColumn: Column = {
-      id: `col_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      title,
-      order: this.columns.length,
-      color,
-    };
-    this.columns.push(newColumn);
-    return newColumn;
+  static getCurrentMemberKey(boardId: string): string {
+    return `${this.STORAGE_KEYS.CURRENT_MEMBER}_${boardId}`;
   }
 
   /**
-   * Update column
+   * Get the storage key holding how a board is split into swimlanes
    */
-  updateColumn(id: string, updates: Partial<Column>): Column | null {
-    const index = this.columns.findIndex(c => c.id === id);
-    if (index === -1) return null;
+  static getSwimlaneModeKey(boardId: string): string {
+    return `${this.STORAGE_KEYS.SWIMLANES}_${boardId}`;
+  }
+}
 
-    this.columns[index] = { ...this.columns[index], ...updates };
-    return this.columns[index];
+/**
+ * Promise-based access to the app's IndexedDB database (client-side only)
+ */
+class IndexedDbService {
+  private static readonly DB_NAME = 'kanban';
+  private static readonly DB_VERSION = 1;
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  static isSupported(): boolean {
+    return isClient && typeof indexedDB !== 'undefined';
   }
 
-  /**
-   * Delete column and its cards
-   */
-  deleteColumn(id: string): boolean {
-    const initialLength = this.columns.length;
-    this.columns = this.columns.filter(c => c.id !== id);
-    this.cards = this.cards.filter(c => c.columnId !== id);
-    return this.columns.length < initialLength;
+  private static open(): Promise<IDBDatabase> {
+    this.dbPromise ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('boards', { keyPath: 'id' });
+        db.createObjectStore('boardData', { keyPath: 'boardId' });
+        db.createObjectStore('entities', { keyPath: ['boardId', 'collection', 'id'] })
+          .createIndex('boardId', 'boardId');
+        db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return this.dbPromise;
+  }
+
+  static result<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
   }
 
   /**
-   * Reorder columns
+   * Run `work` in a single transaction, resolving with its result once the transaction commits
    */
-  reorderColumns(columnIds: string[]): void {
-    columnIds.forEach((id, index) => {
-      const column = this.columns.find(c => c.id === id);
-      if (column) column.order = index;
+  static async transaction<T>(
+    stores: IdbStoreName[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => Promise<T>
+  ): Promise<T> {
+    const db = await this.open();
+    const tx = db.transaction(stores, mode);
+    const committed = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
     });
+
+    try {
+      const result = await work(tx);
+      await committed;
+      return result;
+    } catch (error) {
+      if (!tx.error) tx.abort();
+      throw error;
+    }
   }
+}
 
-  // ==================== CARD OPERATIONS ====================
+// ============================================================================
+// PERSISTENCE ADAPTERS
+// ============================================================================
+
+/**
+ * The board every browser starts with
+ */
+function createDefaultBoard(): Board {
+  return {
+    id: DEFAULT_BOARD_ID,
+    name: DEFAULT_BOARD_NAME,
+    description: '',
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Tells the other tabs of this browser when a board or the board list was saved.
+ * Uses a BroadcastChannel, falling back to storage events where it is unavailable
+ * (those only cover boards kept in localStorage).
+ */
+class TabSync {
+  private static readonly CHANNEL_NAME = 'kanban_sync';
+  private static channel: BroadcastChannel | null = null;
+  private static listeners = new Set<(message: TabSyncMessage) => void>();
+
+  private static isChannelSupported(): boolean {
+    return isClient && typeof BroadcastChannel !== 'undefined';
+  }
 
   /**
-   * Get cards by column ID
+   * The tab's one channel: posting and listening on the same instance keeps
+   * a tab from receiving (and reloading after) its own saves
    */
-  getCardsByColumn(columnId: string): Card[] {
-    return this.cards
-      .filter(c => c.columnId === columnId)
-      .sort((a, b) => a.order - b.order);
+  private static getChannel(): BroadcastChannel {
+    if (!this.channel) {
+      this.channel = new BroadcastChannel(this.CHANNEL_NAME);
+      this.channel.onmessage = event => {
+        this.listeners.forEach(listener => listener(event.data as TabSyncMessage));
+      };
+    }
+    return this.channel;
+  }
+
+  static post(message: TabSyncMessage): void {
+    if (!this.isChannelSupported()) return;
+    this.getChannel().postMessage(message);
   }
 
   /**
-   * Add new card
+   * Listen for changes made in other tabs; returns a function that stops listening
    */
-  addCard(card: Omit<Card, 'id' | 'createdAt' | 'order'>): Card {
-    const columnCards = this.getCardsByColumn(card.columnId);
-    const newCard: Card = {
-      ...card,
-      id: `card_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      order: columnCards.length,
+  static subscribe(listener: (message: TabSyncMessage) => void): () => void {
+    if (!isClient) return () => {};
+
+    if (this.isChannelSupported()) {
+      this.getChannel();
+      this.listeners.add(listener);
+      return () => this.listeners.delete(listener);
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (!event.key || event.storageArea !== localStorage) return;
+      const boardId = StorageService.getBoardIdFromKey(event.key);
+      if (boardId !== null) listener({ type: 'board', boardId });
+      else if (event.key === StorageService.getKeys().BOARDS) listener({ type: 'boards' });
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+}
+
+/**
+ * Persists boards in localStorage (shared by the browser's tabs)
+ */
+class LocalStorageAdapter implements PersistenceAdapter {
+  async listBoards(): Promise<Board[]> {
+    const boards = StorageService.loadFromStorage<Board[]>(StorageService.getKeys().BOARDS, []);
+    if (boards.length > 0 || !isClient) return boards;
+
+    const defaultBoard = createDefaultBoard();
+    this.saveBoards([defaultBoard]);
+    return [defaultBoard];
+  }
+
+  async createBoard(details: BoardDetails, data: BoardData): Promise<Board> {
+    const board: Board = {
+      ...details,
+      id: `board_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       createdAt: Date.now(),
     };
-    this.cards.push(newCard);
-    return newCard;
+    this.saveBoards([...(await this.listBoards()), board]);
+    await this.save(board.id, data);
+    return board;
   }
 
-  /**
-   * Update card
-   */
-  updateCard(id: string, updates: Partial<Card>): Card | null {
-    const index = this.cards.findIndex(c => c.id === id);
+  async updateBoard(id: string, updates: Partial<BoardDetails>): Promise<Board | null> {
+    const boards = await this.listBoards();
+    const index = boards.findIndex(b => b.id === id);
     if (index === -1) return null;
 
-    this.cards[index] = { ...this.cards[index], ...updates };
-    return this.cards[index];
+    boards[index] = { ...boards[index], ...updates };
+    this.saveBoards(boards);
+    return boards[index];
   }
 
-  /**
-   * Delete card
-   */
-  deleteCard(id: string): boolean {
-    const initialLength = this.cards.length;
-    this.cards = this.cards.filter(c => c.id !== id);
-    return this.cards.length < initialLength;
+  async deleteBoard(id: string): Promise<void> {
+    StorageService.removeFromStorage(StorageService.getBoardDataKey(id));
+    this.saveBoards((await this.listBoards()).filter(b => b.id !== id));
   }
 
-  /**
-   * Move card to different column
-   */
-  moveCard(cardId: string, targetColumnId: string, targetOrder: number): Card | null {
-    const card = this.cards.find(c => c.id === cardId);
-    if (!card) return null;
-
-    const sourceColumnId = card.columnId;
+  async load(boardId: string): Promise<BoardData | null> {
+    return StorageService.loadFromStorage<BoardData | null>(
+      StorageService.getBoardDataKey(boardId),
+      null
+    );
+  }
 
-    // Remove card from source column and update orders
-    if (sourceColumnId !== targetColumnId) {
-      const sourceCards = this.getCardsByColumn(sourceColumnId);
-      sourceCards
-        .filter(c => c.order > card.order)
-        .forEach(c => c.order--);
-    }
+  async save(boardId: string, data: BoardData): Promise<void> {
+    StorageService.saveToStorage(StorageService.getBoardDataKey(boardId), data);
+    TabSync.post({ type: 'board', boardId });
+  }
 
-    // Insert card into target column
-    const targetCards = this.getCardsByColumn(targetColumnId);
-    targetCards
-      .filter(c => c.order >= targetOrder)
-      .forEach(c => c.order++);
+  private saveBoards(boards: Board[]): void {
+    StorageService.saveToStorage(StorageService.getKeys().BOARDS, boards);
+    TabSync.post({ type: 'boards' });
+  }
+}
 
-    // Update card
-    card.columnId = targetColumnId;
-    card.order = targetOrder;
+/**
+ * Persists boards in IndexedDB, one record per column, card, label, member and lane
+ */
+class IndexedDbAdapter implements PersistenceAdapter {
+  async listBoards(): Promise<Board[]> {
+    if (!isClient) return [];
+    const boards = await this.getStoredBoards();
+    if (boards.length > 0) return boards;
+
+    const defaultBoard = createDefaultBoard();
+    await this.storeBoards([defaultBoard]);
+    TabSync.post({ type: 'boards' });
+    return [defaultBoard];
+  }
 
-    return card;
+  async createBoard(details: BoardDetails, data: BoardData): Promise<Board> {
+    const board: Board = {
+      ...details,
+      id: `board_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: Date.now(),
+    };
+    await this.storeBoards([board]);
+    await this.save(board.id, data);
+    TabSync.post({ type: 'boards' });
+    return board;
   }
 
-  /**
-   * Search cards by term
-   */
-  searchCards(term: string): Card[] {
-    const lowerTerm = term.toLowerCase();
-    return this.cards.filter(c =>
-      c.title.toLowerCase().includes(lowerTerm) ||
-      c.description.toLowerCase().includes(lowerTerm)
-    );
+  async updateBoard(id: string, updates: Partial<BoardDetails>): Promise<Board | null> {
+    const board = (await this.getStoredBoards()).find(b => b.id === id);
+    if (!board) return null;
+
+    const updated = { ...board, ...updates };
+    await this.storeBoards([updated]);
+    TabSync.post({ type: 'boards' });
+    return updated;
   }
 
-  /**
-   * Filter cards by label IDs
-   */
-  filterCardsByLabels(labelIds: string[]): Card[] {
-    if (labelIds.length === 0) return this.cards;
-    return this.cards.filter(card =>
-      labelIds.some(labelId => card.labels.includes(labelId))
-    );
+  async deleteBoard(id: string): Promise<void> {
+    await this.removeBoard(id);
+    TabSync.post({ type: 'boards' });
   }
 
-  // ==================== LABEL OPERATIONS ====================
+  async load(boardId: string): Promise<BoardData | null> {
+    if (!isClient) return null;
+    return IndexedDbService.transaction(['boardData', 'entities'], 'readonly', async tx => {
+      const saved = await IndexedDbService.result(tx.objectStore('boardData').get(boardId));
+      if (!saved) return null;
+
+      const records = await IndexedDbService.result<StoredEntity[]>(
+        tx.objectStore('entities').index('boardId').getAll(boardId)
+      );
+      const data = Object.fromEntries(BOARD_COLLECTIONS.map(collection => [collection, []])) as unknown as BoardData;
+      records
+        .filter(record => BOARD_COLLECTIONS.includes(record.collection))
+        .sort((a, b) => a.position - b.position)
+        .forEach(record => {
+          (data[record.collection] as { id: string }[]).push(record.entity);
+        });
+      return data;
+    });
+  }
 
-  /**
-   * Get all labels
-   */
-  getLabels(): Label[] {
-    return [...this.labels];
+  async save(boardId: string, data: BoardData): Promise<void> {
+    await this.storeBoardData(boardId, data);
+    TabSync.post({ type: 'board', boardId });
   }
 
-  /**
-   * Add new label
-   */
-  addLabel(name: string, color: LabelColor): Label {
-    const newLabel: Label = {
-      id: `label_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      name,
-      color,
-    };
-    this.labels.push(newLabel);
-    return newLabel;
+  // Raw reads and writes, shared with OfflineSyncAdapter, which caches server boards here
+
+  async getStoredBoards(): Promise<Board[]> {
+    const boards = await IndexedDbService.transaction(['boards'], 'readonly', tx =>
+      IndexedDbService.result<Board[]>(tx.objectStore('boards').getAll())
+    );
+    return boards.sort((a, b) => a.createdAt - b.createdAt);
   }
 
-  /**
-   * Update label
-   */
-  updateLabel(id: string, updates: Partial<Label>): Label | null {
-    const index = this.labels.findIndex(l => l.id === id);
-    if (index === -1) return null;
+  async storeBoards(boards: Board[], replaceAll = false): Promise<void> {
+    await IndexedDbService.transaction(['boards'], 'readwrite', async tx => {
+      const store = tx.objectStore('boards');
+      if (replaceAll) store.clear();
+      boards.forEach(board => store.put(board));
+    });
+  }
 
-    this.labels[index] = { ...this.labels[index], ...updates };
-    return this.labels[index];
+  async removeBoard(id: string): Promise<void> {
+    await IndexedDbService.transaction(['boards', 'boardData', 'entities'], 'readwrite', async tx => {
+      tx.objectStore('boards').delete(id);
+      tx.objectStore('boardData').delete(id);
+      tx.objectStore('entities').delete(IDBKeyRange.bound([id], [id, []]));
+    });
   }
 
   /**
-   * Delete label
+   * Replace a board's entities, deleting the ones no longer on the board
    */
-  deleteLabel(id: string): boolean {
-    const initialLength = this.labels.length;
-    this.labels = this.labels.filter(l => l.id !== id);
-
-    // Remove label from all cards
-    this.cards.forEach(card => {
-      card.labels = card.labels.filter(labelId => labelId !== id);
+  async storeBoardData(boardId: string, data: BoardData): Promise<void> {
+    await IndexedDbService.transaction(['boardData', 'entities'], 'readwrite', async tx => {
+      const entities = tx.objectStore('entities');
+      const existingKeys = await IndexedDbService.result(entities.index('boardId').getAllKeys(boardId));
+      const keptKeys = new Set<string>();
+
+      BOARD_COLLECTIONS.forEach(collection => {
+        (data[collection] ?? []).forEach((entity, position) => {
+          keptKeys.add(JSON.stringify([boardId, collection, entity.id]));
+          entities.put({ boardId, collection, id: entity.id, position, entity } satisfies StoredEntity);
+        });
+      });
+      existingKeys
+        .filter(key => !keptKeys.has(JSON.stringify(key)))
+        .forEach(key => entities.delete(key));
+
+      tx.objectStore('boardData').put({ boardId, updatedAt: Date.now() });
     });
+  }
+}
 
-    return this.labels.length < initialLength;
+/**
+ * Persists boards through the REST API exposed by server.js
+ */
+class ApiPersistenceAdapter implements PersistenceAdapter {
+  private baseUrl: string;
+  private pendingSave: Promise<void>;
+
+  constructor(baseUrl: string = `${BASE_URL}api`) {
+    this.baseUrl = baseUrl;
+    this.pendingSave = Promise.resolve();
   }
 
   /**
-   * Sync to storage
+   * Send a JSON request, turning error responses into exceptions
    */
-  syncToStorage(): void {
-    StorageService.saveToStorage(
-      StorageService.getKeys().BOARD_DATA,
-      this.getAllData()
-    );
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    return this.readResponse<T>(await this.send(path, init), path);
   }
 
   /**
-   * Load from storage
+   * Like request, but resolves to null when the server has no such resource (404)
    */
-  static loadFromStorage(): KanbanModel {
-    const data = StorageService.loadFromStorage<BoardData | null>(
-      StorageService.getKeys().BOARD_DATA,
-      null
-    );
-    return new KanbanModel(data || undefined);
+  private async requestOrNull<T>(path: string, init?: RequestInit): Promise<T | null> {
+    const response = await this.send(path, init);
+    return response.status === 404 ? null : this.readResponse<T>(response, path);
   }
-}
 
-// ============================================================================
-// CONTROLLER LAYER
-// ============================================================================
+  private send(path: string, init?: RequestInit): Promise<Response> {
+    return fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers },
+    });
+  }
 
-/**
- * Kanban Controller - Manages state and coordinates between Model and View
- */
-class KanbanController {
-  private model: KanbanModel;
-  private listeners: Set<() => void>;
+  private async readResponse<T>(response: Response, path: string): Promise<T> {
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error ?? `Request to ${path} failed: ${response.status}`);
+    }
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
 
-  constructor(model: KanbanModel) {
-    this.model = model;
-    this.listeners = new Set();
+  private boardPath(boardId: string): string {
+    return `/boards/${encodeURIComponent(boardId)}`;
+  }
+
+  async listBoards(): Promise<Board[]> {
+    if (!isClient) return [];
+    return this.request<Board[]>('/boards');
+  }
+
+  async createBoard(details: BoardDetails, data: BoardData): Promise<Board> {
+    const board = await this.request<Board>('/boards', {
+      method: 'POST',
+      body: JSON.stringify({ ...details, data }),
+    });
+    TabSync.post({ type: 'boards' });
+    return board;
   }
 
   /**
-   * Subscribe to changes
+   * Rename or describe a board; null when it no longer exists on the server
    */
-  subscribe(listener: () => void): () => void {
-    this.listeners.add(listener);
-    return () => this.listeners.delete(listener);
+  async updateBoard(id: string, updates: Partial<BoardDetails>): Promise<Board | null> {
+    const board = await this.requestOrNull<Board>(this.boardPath(id), {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+    TabSync.post({ type: 'boards' });
+    return board;
   }
 
   /**
-   * Notify all listeners of changes
+   * Delete a board; one already deleted elsewhere counts as deleted
    */
-  private notify(): void {
-    this.listeners.forEach(listener => listener());
-    this.model.syncToStorage();
+  async deleteBoard(id: string): Promise<void> {
+    await this.requestOrNull<void>(this.boardPath(id), { method: 'DELETE' });
+    TabSync.post({ type: 'boards' });
   }
 
-  // ==================== COLUMN METHODS ====================
-
-  getColumns(): Column[] {
-    return this.model.getColumns();
+  /**
+   * Fetch a board's data, resolving to null when it has none yet
+   */
+  async load(boardId: string): Promise<BoardData | null> {
+    if (!isClient) return null;
+    const response = await fetch(`${this.baseUrl}${this.boardPath(boardId)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to load board ${boardId}: ${response.status}`);
+    }
+    return response.json();
   }
 
-  addColumn(title: string, color: string): void {
-    this.model.addColumn(title, color);
-    this.notify();
+  /**
+   * Replace a board's data on the server; saves are queued so they land in order
+   */
+  save(boardId: string, data: BoardData): Promise<void> {
+    if (!isClient) return Promise.resolve();
+    this.pendingSave = this.pendingSave
+      .catch(() => undefined)
+      .then(() => this.request<BoardData>(this.boardPath(boardId), {
+        method: 'PUT',
+        body: JSON.stringify(data),
+      }))
+      .then(() => TabSync.post({ type: 'board', boardId }));
+    return this.pendingSave;
   }
+}
 
-  updateColumn(id: string, updates: Partial<Column>): void {
-    this.model.updateColumn(id, updates);
-    this.notify();
+/**
+ * Server-backed boards that keep working offline: boards are cached in IndexedDB
+ * and saves go to an outbox that is replayed, in order, once the server is reachable
+ */
+class OfflineSyncAdapter implements PersistenceAdapter {
+  private static readonly RETRY_DELAY = 10000;
+
+  private remote: ApiPersistenceAdapter;
+  private local: IndexedDbAdapter;
+  private status: SyncStatus;
+  private statusListeners = new Set<(status: SyncStatus) => void>();
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(remote: ApiPersistenceAdapter, local: IndexedDbAdapter) {
+    this.remote = remote;
+    this.local = local;
+    this.status = navigator.onLine ? 'synced' : 'offline';
+
+    window.addEventListener('online', () => this.flush());
+    window.addEventListener('offline', () => this.setStatus('offline'));
+    this.flush();
   }
 
-  deleteColumn(id: string): void {
-    this.model.deleteColumn(id);
-    this.notify();
+  subscribeSyncStatus(listener: (status: SyncStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.status);
+    return () => this.statusListeners.delete(listener);
   }
 
-  reorderColumns(columnIds: string[]): void {
-    this.model.reorderColumns(columnIds);
-    this.notify();
+  private setStatus(status: SyncStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
   }
 
-  // ==================== CARD METHODS ====================
+  async listBoards(): Promise<Board[]> {
+    try {
+      const boards = await this.remote.listBoards();
+      await this.local.storeBoards(boards, true);
+      return boards;
+    } catch (error) {
+      console.warn('Server unreachable, using cached boards:', error);
+      return this.local.getStoredBoards();
+    }
+  }
 
-  getCardsByColumn(columnId: string): Card[] {
-    return this.model.getCardsByColumn(columnId);
+  async createBoard(details: BoardDetails, data: BoardData): Promise<Board> {
+    const board = await this.remote.createBoard(details, data);
+    await this.local.storeBoards([board]);
+    await this.local.storeBoardData(board.id, data);
+    return board;
   }
 
-  addCard(card: Omit<Card, 'id' | 'createdAt' | 'order'>): void {
-    this.model.addCard(card);
-    this.notify();
+  async updateBoard(id: string, updates: Partial<BoardDetails>): Promise<Board | null> {
+    const board = await this.remote.updateBoard(id, updates);
+    if (board) await this.local.storeBoards([board]);
+    else await this.local.removeBoard(id);
+    return board;
   }
 
-  updateCard(id: string, updates: Partial<Card>): void {
-    this.model.updateCard(id, updates);
-    this.notify();
+  async deleteBoard(id: string): Promise<void> {
+    await this.remote.deleteBoard(id);
+    await this.local.removeBoard(id);
   }
 
-  deleteCard(id: string): void {
-    this.model.deleteCard(id);
-    this.notify();
+  /**
+   * Unsent local changes win over the server copy; otherwise the server copy is cached and returned
+   */
+  async load(boardId: string): Promise<BoardData | null> {
+    if ((await this.getOutbox()).some(entry => entry.boardId === boardId)) {
+      return this.local.load(boardId);
+    }
+
+    try {
+      const data = await this.remote.load(boardId);
+      if (data) await this.local.storeBoardData(boardId, data);
+      return data;
+    } catch (error) {
+      console.warn(`Server unreachable, using cached board ${boardId}:`, error);
+      return this.local.load(boardId);
+    }
   }
 
-  moveCard(cardId: string, targetColumnId: string, targetOrder: number): void {
-    this.model.moveCard(cardId, targetColumnId, targetOrder);
-    this.notify();
+  /**
+   * Save locally and queue the save for the server, replacing any older queued save of the board
+   */
+  async save(boardId: string, data: BoardData): Promise<void> {
+    await this.local.storeBoardData(boardId, data);
+    await IndexedDbService.transaction(['outbox'], 'readwrite', async tx => {
+      const outbox = tx.objectStore('outbox');
+      const entries = await IndexedDbService.result<OutboxEntry[]>(outbox.getAll());
+      entries
+        .filter(entry => entry.boardId === boardId)
+        .forEach(entry => outbox.delete(entry.seq!));
+      outbox.add({ boardId, data, queuedAt: Date.now() } satisfies OutboxEntry);
+    });
+    TabSync.post({ type: 'board', boardId });
+    this.flush();
   }
 
-  searchCards(term: string): Card[] {
-    return this.model.searchCards(term);
+  private getOutbox(): Promise<OutboxEntry[]> {
+    return IndexedDbService.transaction(['outbox'], 'readonly', tx =>
+      IndexedDbService.result<OutboxEntry[]>(tx.objectStore('outbox').getAll())
+    );
   }
 
-  filterCardsByLabels(labelIds: string[]): Card[] {
-    return this.model.filterCardsByLabels(labelIds);
+  /**
+   * Send queued saves oldest first. Network failures keep the entry and retry later;
+   * saves the server rejects are kept with the error and not resent, since they would
+   * fail the same way, and the status stays 'error' until a newer save replaces them.
+   */
+  private flush(): Promise<void> {
+    this.flushing ??= this.sendOutbox()
+      .catch(error => console.error('Error sending queued saves:', error))
+      .finally(() => {
+        this.flushing = null;
+      });
+    return this.flushing;
   }
 
-  // ==================== LABEL METHODS ====================
+  private async sendOutbox(): Promise<void> {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
 
-  getLabels(): Label[] {
-    return this.model.getLabels();
+    if (!navigator.onLine) {
+      this.setStatus('offline');
+      return;
+    }
+
+    const getNextEntry = async () => (await this.getOutbox()).find(entry => entry.error === undefined);
+    let entry = await getNextEntry();
+    while (entry) {
+      this.setStatus('syncing');
+      let rejection: string | undefined;
+      try {
+        await this.remote.save(entry.boardId, entry.data);
+      } catch (error) {
+        if (error instanceof TypeError) {
+          this.setStatus('offline');
+          this.retryTimer = setTimeout(() => this.flush(), OfflineSyncAdapter.RETRY_DELAY);
+          return;
+        }
+        console.error(`Server rejected queued save of board ${entry.boardId}:`, error);
+        rejection = error instanceof Error ? error.message : String(error);
+      }
+      const sent = entry;
+      await IndexedDbService.transaction(['outbox'], 'readwrite', async tx => {
+        if (rejection === undefined) tx.objectStore('outbox').delete(sent.seq!);
+        else tx.objectStore('outbox').put({ ...sent, error: rejection } satisfies OutboxEntry);
+      });
+      entry = await getNextEntry();
+    }
+    const hasRejected = (await this.getOutbox()).length > 0;
+    this.setStatus(hasRejected ? 'error' : 'synced');
   }
+}
 
-  addLabel(name: string, color: LabelColor): void {
-    this.model.addLabel(name, color);
-    this.notify();
+/**
+ * Pick the adapter configured through VITE_PERSISTENCE ('api' or 'local'),
+ * backed by IndexedDB in browsers that support it
+ */
+function createPersistenceAdapter(): PersistenceAdapter {
+  const useIndexedDb = IndexedDbService.isSupported();
+  if (PERSISTENCE_MODE === 'api') {
+    return useIndexedDb
+      ? new OfflineSyncAdapter(new ApiPersistenceAdapter(), new IndexedDbAdapter())
+      : new ApiPersistenceAdapter();
   }
+  return useIndexedDb ? new IndexedDbAdapter() : new LocalStorageAdapter();
+}
 
-  updateLabel(id: string, updates: Partial<Label>): void {
-    this.model.updateLabel(id, updates);
-    this.notify();
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
   }
+}
 
-  deleteLabel(id: string): void {
-    this.model.deleteLabel(id);
-    this.notify();
+/**
+ * Parse a URL (with or without the base path) into an app route
+ */
+export function parseRoute(url: string): Route {
+  const [path] = url.split(/[?#]/);
+  const relative = path.startsWith(BASE_URL) ? path.slice(BASE_URL.length) : path;
+  const segments = relative.split('/').filter(Boolean).map(safeDecode);
+
+  if (segments[0] === 'boards' && segments.length === 2) {
+    return { name: 'board', boardId: segments[1] };
   }
+  return { name: 'boards' };
+}
+
+/**
+ * Read a board's filters from a URL query string (?q=...&labels=id1,none&labelMode=all&due=week&assignee=me)
+ */
+function parseFilterQuery(url: string): BoardFilters {
+  const params = new URLSearchParams(url.split('#')[0].split('?')[1] ?? '');
+  const due = params.get('due');
+  const labelMode = params.get('labelMode');
+  return {
+    search: params.get('q') ?? '',
+    labels: params.get('labels')?.split(',').filter(Boolean) ?? [],
+    labelMode: labelMode === 'all' || labelMode === 'exclude' ? labelMode : 'any',
+    due: due === 'overdue' || due === 'week' ? due : 'all',
+    assignee: params.get('assignee') || 'all',
+  };
+}
+
+/**
+ * Build the query string for a board's filters; empty when nothing is filtered
+ */
+function filtersToQuery(filters: BoardFilters): string {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('q', filters.search);
+  if (filters.labels.length > 0) params.set('labels', filters.labels.join(','));
+  if (filters.labels.length > 0 && filters.labelMode !== 'any') params.set('labelMode', filters.labelMode);
+  if (filters.due !== 'all') params.set('due', filters.due);
+  if (filters.assignee !== 'all') params.set('assignee', filters.assignee);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Whether two filter states select the same cards (label order, and the label mode when no label is selected, are irrelevant)
+ */
+function areFiltersEqual(a: BoardFilters, b: BoardFilters): boolean {
+  return a.search === b.search &&
+    a.due === b.due &&
+    a.assignee === b.assignee &&
+    [...a.labels].sort().join() === [...b.labels].sort().join() &&
+    (a.labels.length === 0 || a.labelMode === b.labelMode);
+}
+
+/**
+ * Build the URL path for a route
+ */
+function routeToPath(route: Route): string {
+  return route.name === 'board'
+    ? `${BASE_URL}boards/${encodeURIComponent(route.boardId)}`
+    : BASE_URL;
 }
 
 // ============================================================================
-// VIEW COMPONENTS
+// HELPERS
 // ============================================================================
 
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 /**
- * Header Component with theme toggle
+ * Up to two initials from a name ("Ana Souza" -> "AS", "ana" -> "AN")
  */
-const Header: React.FC<{
-  darkMode: boolean;
-  toggleTheme: () => void;
-  onAddColumn: () => void;
-}> = ({ darkMode, toggleTheme, onAddColumn }) => {
-  return (
-    <header className="header">
-      <div className="header-content">
-        <div className="header-title">
-          <svg className="header-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
-          </svg>
-          <h1>Kanban Board</h1>
-        </div>
-        <div className="header-actions">
-          <button onClick={onAddColumn} className="btn-add-column">
-            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Nova Coluna
-          </button>
-          <button onClick={toggleTheme} className="theme-toggle" aria-label="Toggle theme">
-            {darkMode ? (
-              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
-              </svg>
-            ) : (
-              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
-              </svg>
-            )}
-          </button>
-        </div>
-      </div>
-    </header>
-  );
-};
+function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  const initials = words.length === 1
+    ? words[0].slice(0, 2)
+    : words[0][0] + words[words.length - 1][0];
+  return initials.toUpperCase();
+}
 
 /**
- * Search and Filter Bar Component
+ * Done and total item counts across all of a card's checklists
  */
-const FilterBar: React.FC<{
-  searchTerm: string;
-  onSearchChange: (term: string) => void;
-  selectedLabels: string[];
-  onLabelToggle: (labelId: string) => void;
-  labels: Label[];
-  onManageLabels: () => void;
-}> = ({ searchTerm, onSearchChange, selectedLabels, onLabelToggle, labels, onManageLabels }) => {
-  return (
-    <div className="filter-bar">
-      <div className="search-box">
-        <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-        </svg>
-        <input
-          type="text"
-          placeholder="Buscar cards..."
-          value={searchTerm}
-          onChange={e => onSearchChange(e.target.value)}
-        />
-      </div>
+function getChecklistProgress(checklists: Checklist[] = []): { done: number; total: number } {
+  const items = checklists.flatMap(checklist => checklist.items);
+  return { done: items.filter(item => item.done).length, total: items.length };
+}
 
-      <div className="label-filters">
-        <button onClick={onManageLabels} className="manage-labels-btn">
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
-          </svg>
-          Gerenciar Labels
-        </button>
-        {labels.map(label => (
-          <button
-            key={label.id}
-            onClick={() => onLabelToggle(label.id)}
-            className={`label-filter ${selectedLabels.includes(label.id) ? 'active' : ''}`}
-            style={{
-              backgroundColor: selectedLabels.includes(label.id)
-                ? LABEL_COLORS[label.color]
-                : 'transparent',
-              borderColor: LABEL_COLORS[label.color],
-              color: selectedLabels.includes(label.id) ? '#fff' : 'currentColor'
-            }}
-          >
-            {label.name}
-          </button>
-        ))}
-      </div>
-    </div>
-  );
-};
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
 
 /**
- * Card Component with inline editing
+ * Local calendar date as YYYY-MM-DD (the format of <input type="date">)
  */
-const CardComponent: React.FC<{
-  card: Card;
-  labels: Label[];
-  onUpdate: (updates: Partial<Card>) => void;
-  onDelete: () => void;
-  onDragStart: () => void;
-  onDragEnd: () => void;
-}> = ({ card, labels, onUpdate, onDelete, onDragStart, onDragEnd }) => {
-  const [isEditingTitle, setIsEditingTitle] = useState(false);
-  const [isEditingDescription, setIsEditingDescription] = useState(false);
-  const [editTitle, setEditTitle] = useState(card.title);
-  const [editDescription, setEditDescription] = useState(card.description);
-  const [showLabels, setShowLabels] = useState(false);
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
 
-  const titleInputRef = useRef<HTMLInputElement>(null);
-  const descriptionTextareaRef = useRef<HTMLTextAreaElement>(null);
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
 
-  useEffect(() => {
-    if (isEditingTitle && titleInputRef.current) {
-      titleInputRef.current.focus();
-      titleInputRef.current.select();
-    }
-  }, [isEditingTitle]);
+/**
+ * Format a YYYY-MM-DD key as DD/MM without going through Date (no timezone shifts)
+ */
+function formatDateKey(dateKey: string): string {
+  const [, month, day] = dateKey.split('-');
+  return `${day}/${month}`;
+}
 
-  useEffect(() => {
-    if (isEditingDescription && descriptionTextareaRef.current) {
-      descriptionTextareaRef.current.focus();
-    }
-  }, [isEditingDescription]);
+/**
+ * Format a timestamp as a short local date and time
+ */
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+}
 
-  const handleTitleSave = () => {
-    if (editTitle.trim() && editTitle !== card.title) {
-      onUpdate({ title: editTitle.trim() });
-    } else {
-      setEditTitle(card.title);
-    }
-    setIsEditingTitle(false);
-  };
+/**
+ * Classify a due date relative to today
+ */
+function getDueStatus(dueDate: string, today: Date = new Date()): DueStatus {
+  const todayKey = toDateKey(today);
+  if (dueDate < todayKey) return 'overdue';
+  if (dueDate === todayKey) return 'today';
+  if (dueDate <= toDateKey(addDays(today, DUE_SOON_DAYS))) return 'upcoming';
+  return 'scheduled';
+}
+
+/**
+ * Whether a due date falls in the current Monday-Sunday week
+ */
+function isDueThisWeek(dueDate: string, today: Date = new Date()): boolean {
+  const daysSinceMonday = (today.getDay() + 6) % 7;
+  const monday = addDays(today, -daysSinceMonday);
+  return dueDate >= toDateKey(monday) && dueDate <= toDateKey(addDays(monday, 6));
+}
+
+// ============================================================================
+// SEARCH QUERY
+// ============================================================================
+
+/**
+ * Parse a `due:` value: overdue, today, week, none, or <7d, >=2024-05-01, 2024-05-01...
+ */
+function parseDueQuery(value: string): DueQuery | null {
+  const status = ({
+    overdue: 'overdue', atrasado: 'overdue',
+    today: 'today', hoje: 'today',
+    week: 'week', semana: 'week',
+  } as Record<string, 'overdue' | 'today' | 'week'>)[normalizeName(value)];
+  if (status) return { type: 'status', status };
+  if (SEARCH_NONE_VALUES.includes(normalizeName(value))) return { type: 'status', status: 'none' };
+
+  const match = /^(<=|>=|<|>|=)?(?:(-?\d+)d|(\d{4}-\d{2}-\d{2}))$/i.exec(value.trim());
+  if (!match) return null;
+  const operator = (match[1] ?? '=') as '<' | '<=' | '>' | '>=' | '=';
+  if (match[2] !== undefined) return { type: 'compare', operator, days: Number(match[2]) };
+  return isDateKey(match[3]) ? { type: 'compare', operator, date: match[3] } : null;
+}
 
-  const handleDescriptionSave = () => {
-    if (editDescription !== card.description) {
-      onUpdate({ description: editDescription });
+/**
+ * Whether a priority search value names a priority (by value or label) or "none"
+ */
+function isPriorityQuery(value: string): boolean {
+  const normalized = normalizeName(value);
+  return SEARCH_NONE_VALUES.includes(normalized) || PRIORITY_OPTIONS.some(option =>
+    option.value === normalized || normalizeName(option.label) === normalized
+  );
+}
+
+/**
+ * Parse the search box syntax: free words, "exact phrases", field:value filters
+ * (values may be quoted) and a leading - to negate any term. Syntax errors are
+ * collected with their position instead of failing the whole query.
+ */
+function parseSearchQuery(query: string): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+  const errors: SearchQueryError[] = [];
+  let i = 0;
+
+  // Read a bare word or a quoted value starting at i
+  const readValue = (): { value: string; closed: boolean } => {
+    if (query[i] === '"') {
+      const close = query.indexOf('"', i + 1);
+      const value = query.slice(i + 1, close === -1 ? query.length : close);
+      i = close === -1 ? query.length : close + 1;
+      return { value, closed: close !== -1 };
     }
-    setIsEditingDescription(false);
+    const word = /^\S*/.exec(query.slice(i))![0];
+    i += word.length;
+    return { value: word, closed: true };
   };
 
-  const toggleLabel = (labelId: string) => {
-    const newLabels = card.labels.includes(labelId)
-      ? card.labels.filter(id => id !== labelId)
-      : [...card.labels, labelId];
-    onUpdate({ labels: newLabels });
-  };
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
 
-  const cardLabels = labels.filter(l => card.labels.includes(l.id));
+    const start = i;
+    const negated = query[i] === '-' && /\S/.test(query[i + 1] ?? '');
+    if (negated) i++;
+
+    const prefix = /^([\p{L}]+):/u.exec(query.slice(i));
+    let field: SearchField = 'text';
+    let unknownField: string | null = null;
+    if (prefix) {
+      i += prefix[0].length;
+      const resolved = SEARCH_FIELD_ALIASES[normalizeName(prefix[1])];
+      if (resolved) field = resolved;
+      else unknownField = prefix[1];
+    }
 
-  return (
-    <div
-      className="card"
-      draggable
-      onDragStart={onDragStart}
-      onDragEnd={onDragEnd}
-    >
-      <div className="card-header">
-        {isEditingTitle ? (
-          <input
-            ref={titleInputRef}
-            type="text"
-            value={editTitle}
-            onChange={e => setEditTitle(e.target.value)}
-            onBlur={handleTitleSave}
-            onKeyDown={e => {
-              if (e.key === 'Enter') handleTitleSave();
-              if (e.key === 'Escape') {
-                setEditTitle(card.title);
-                setIsEditingTitle(false);
-              }
-            }}
-            className="card-title-input"
-          />
-        ) : (
-          <h4 onClick={() => setIsEditingTitle(true)} className="card-title">
-            {card.title}
-          </h4>
-        )}
-        <button onClick={onDelete} className="card-delete" aria-label="Excluir card">
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-          </svg>
-        </button>
-      </div>
+    const { value, closed } = readValue();
+    const end = i;
+    const fail = (message: string) => errors.push({ message, start, end });
+
+    if (!closed) {
+      fail('Aspas sem fechamento.');
+    } else if (unknownField !== null) {
+      fail(`Campo desconhecido "${unknownField}:". Use label, column, assignee, due, priority ou lane.`);
+    } else if (field !== 'text' && !value.trim()) {
+      fail(`Informe um valor depois de "${prefix![1]}:".`);
+    } else if (field === 'due' && !parseDueQuery(value)) {
+      fail(`Prazo inválido "${value}". Use overdue, today, week, none, <7d ou >=AAAA-MM-DD.`);
+    } else if (field === 'priority' && !isPriorityQuery(value)) {
+      fail(`Prioridade inválida "${value}". Use ${PRIORITY_OPTIONS.map(o => o.label.toLowerCase()).join(', ')} ou none.`);
+    } else if (value) {
+      terms.push({ field, value, negated, start, end });
+    }
+  }
 
-      {cardLabels.length > 0 && (
-        <div className="card-labels">
-          {cardLabels.map(label => (
-            <span
-              key={label.id}
-              className="card-label"
-              style={{ backgroundColor: LABEL_COLORS[label.color] }}
-            >
-              {label.name}
-            </span>
-          ))}
-        </div>
-      )}
+  return { terms, errors };
+}
 
-      {isEditingDescription ? (
-        <textarea
-          ref={descriptionTextareaRef}
-          value={editDescription}
-          onChange={e => setEditDescription(e.target.value)}
-          onBlur={handleDescriptionSave}
-          className="card-description-textarea"
-          rows={3}
-        />
-      ) : (
-        <p
-          onClick={() => setIsEditingDescription(true)}
-          className="card-description"
-        >
-          {card.description || 'Clique para adicionar descrição...'}
-        </p>
-      )}
+/**
+ * Words and phrases to highlight in matching cards (negated terms match nothing to highlight)
+ */
+function getSearchHighlights(query: ParsedSearchQuery): string[] {
+  return query.terms
+    .filter(term => term.field === 'text' && !term.negated)
+    .map(term => term.value);
+}
 
-      <div className="card-footer">
-        <button
-          onClick={() => setShowLabels(!showLabels)}
-          className="btn-add-label"
-        >
-          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
-          </svg>
-          Labels
-        </button>
-      </div>
+// ============================================================================
+// SEARCH INDEX
+// ============================================================================
 
-      {showLabels && (
-        <div className="label-selector">
-          {labels.map(label => (
-            <button
-              key={label.id}
-              onClick={() => toggleLabel(label.id)}
-              className={`label-option ${card.labels.includes(label.id) ? 'selected' : ''}`}
-              style={{
-                backgroundColor: LABEL_COLORS[label.color],
-                opacity: card.labels.includes(label.id) ? 1 : 0.6
-              }}
-            >
-              {label.name}
-              {card.labels.includes(label.id) && (
-                <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                </svg>
-              )}
-            </button>
-          ))}
-        </div>
-      )}
-    </div>
-  );
-};
+/**
+ * Words of a text, lowercased and without accents
+ */
+function tokenizeSearchText(text: string): string[] {
+  return normalizeName(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
 
 /**
- * Column Component with drag and drop
+ * Levenshtein distance between two words, or max + 1 as soon as it is known to exceed max
  */
-const ColumnComponent: React.FC<{
-  column: Column;
-  cards: Card[];
-  labels: Label[];
-  onAddCard: () => void;
-  onUpdateCard: (cardId: string, updates: Partial<Card>) => void;
-  onDeleteCard: (cardId: string) => void;
-  onUpdateColumn: (updates: Partial<Column>) => void;
-  onDeleteColumn: () => void;
-  onCardDragStart: (card: Card) => void;
-  onCardDragEnd: () => void;
-  onCardDrop: (targetOrder: number) => void;
-  isDraggingOver: boolean;
-}> = ({
-  column,
-  cards,
-  labels,
-  onAddCard,
-  onUpdateCard,
-  onDeleteCard,
-  onUpdateColumn,
-  onDeleteColumn,
-  onCardDragStart,
-  onCardDragEnd,
-  onCardDrop,
-  isDraggingOver
-}) => {
-    const [isEditingTitle, setIsEditingTitle] = useState(false);
-    const [editTitle, setEditTitle] = useState(column.title);
-    const titleInputRef = useRef<HTMLInputElement>(null);
+function getEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
 
-    useEffect(() => {
-      if (isEditingTitle && titleInputRef.current) {
-        titleInputRef.current.focus();
-        titleInputRef.current.select();
-      }
-    }, [isEditingTitle]);
+interface SearchIndexEntry {
+  title: string;
+  description: string;
+  text: string; // Folded title and description, for phrase checks
+  words: string[];
+}
 
-    const handleTitleSave = () => {
-      if (editTitle.trim() && editTitle !== column.title) {
-        onUpdateColumn({ title: editTitle.trim() });
+/**
+ * Inverted index of card titles and descriptions, kept up to date card by card.
+ * A search word matches the indexed words it starts; a word of SEARCH_FUZZY_MIN_LENGTH
+ * letters or more that starts none matches whole words a typo or two away instead.
+ * Values of several words must also appear as a phrase. Case and accents are ignored.
+ */
+class SearchIndex {
+  private entries = new Map<string, SearchIndexEntry>();
+  private postings = new Map<string, Set<string>>(); // word -> card IDs
+  private vocabulary: string[] | null = null; // Sorted postings keys, rebuilt when words come or go
+  private matchCache = new Map<string, Set<string>>(); // folded search value -> card IDs
+  private fuzzyCache = new Map<string, string[]>(); // search word -> indexed words a typo or two away
+
+  rebuild(cards: Card[]): void {
+    this.entries.clear();
+    this.postings.clear();
+    cards.forEach(card => this.update(card));
+    this.matchCache.clear();
+    this.clearVocabulary();
+  }
+
+  /**
+   * Index a new card, or re-index one whose title or description changed
+   */
+  update(card: Card): void {
+    const entry = this.entries.get(card.id);
+    if (entry?.title === card.title && entry.description === card.description) return;
+
+    this.remove(card.id);
+    const words = [...new Set(tokenizeSearchText(`${card.title} ${card.description}`))];
+    this.entries.set(card.id, {
+      title: card.title,
+      description: card.description,
+      text: `${normalizeName(card.title)}\n${normalizeName(card.description)}`,
+      words,
+    });
+    words.forEach(word => {
+      const cardIds = this.postings.get(word);
+      if (cardIds) {
+        cardIds.add(card.id);
       } else {
-        setEditTitle(column.title);
+        this.postings.set(word, new Set([card.id]));
+        this.clearVocabulary();
       }
-      setIsEditingTitle(false);
-    };
+    });
+    this.matchCache.clear();
+  }
 
-    const handleDragOver = (e: React.DragEvent) => {
-      e.preventDefault();
-    };
+  remove(cardId: string): void {
+    const entry = this.entries.get(cardId);
+    if (!entry) return;
 
-    const handleDrop = (e: React.DragEvent) => {
-      e.preventDefault();
-      onCardDrop(cards.length);
-    };
+    entry.words.forEach(word => {
+      const cardIds = this.postings.get(word);
+      cardIds?.delete(cardId);
+      if (cardIds?.size === 0) {
+        this.postings.delete(word);
+        this.clearVocabulary();
+      }
+    });
+    this.entries.delete(cardId);
+    this.matchCache.clear();
+  }
 
-    return (
-      <div
-        className={`column ${isDraggingOver ? 'drag-over' : ''}`}
-        onDragOver={handleDragOver}
-        onDrop={handleDrop}
-      >
-        <div className="column-header" style={{ borderTopColor: column.color }}>
-          {isEditingTitle ? (
-            <input
-              ref={titleInputRef}
-              type="text"
-              value={editTitle}
-              onChange={e => setEditTitle(e.target.value)}
-              onBlur={handleTitleSave}
-              onKeyDown={e => {
-                if (e.key === 'Enter') handleTitleSave();
-                if (e.key === 'Escape') {
-                  setEditTitle(column.title);
-                  setIsEditingTitle(false);
-                }
-              }}
-              className="column-title-input"
-            />
-          ) : (
-            <h3 onClick={() => setIsEditingTitle(true)} className="column-title">
-              {column.title}
-              <span className="card-count">{cards.length}</span>
-            </h3>
-          )}
-          <div className="column-actions">
-            <button onClick={onAddCard} className="btn-add-card" aria-label="Adicionar card">
-              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-            </button>
-            <button onClick={onDeleteColumn} className="btn-delete-column" aria-label="Excluir coluna">
-              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-              </svg>
-            </button>
-          </div>
-        </div>
+  /**
+   * IDs of the cards whose title or description match a search value
+   */
+  match(value: string): Set<string> {
+    const key = normalizeName(value);
+    const cached = this.matchCache.get(key);
+    if (cached) return cached;
+
+    const words = tokenizeSearchText(value);
+    let cardIds = words.length === 0 ? new Set(this.entries.keys()) : this.matchWord(words[0]);
+    words.slice(1).forEach(word => {
+      const wordIds = this.matchWord(word);
+      cardIds = new Set([...cardIds].filter(id => wordIds.has(id)));
+    });
+    if (words.length !== 1) {
+      cardIds = new Set([...cardIds].filter(id => this.entries.get(id)!.text.includes(key)));
+    }
 
-        <div className="cards-container">
-          {cards.map(card => (
-            <CardComponent
-              key={card.id}
-              card={card}
-              labels={labels}
-              onUpdate={updates => onUpdateCard(card.id, updates)}
-              onDelete={() => onDeleteCard(card.id)}
-              onDragStart={() => onCardDragStart(card)}
-              onDragEnd={onCardDragEnd}
-            />
-          ))}
-          {cards.length === 0 && (
-            <div className="empty-column">
-              <p>Arraste cards aqui ou clique no + para adicionar</p>
-            </div>
-          )}
-        </div>
-      </div>
-    );
-  };
+    this.matchCache.set(key, cardIds);
+    return cardIds;
+  }
 
-/**
- * Modal for adding new card
- */
-const AddCardModal: React.FC<{
-  isOpen: boolean;
-  onClose: () => void;
-  onAdd: (title: string, description: string) => void;
-}> = ({ isOpen, onClose, onAdd }) => {
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
+  private matchWord(word: string): Set<string> {
+    const cardIds = new Set<string>();
+    this.expandWord(word).forEach(indexed => {
+      this.postings.get(indexed)!.forEach(id => cardIds.add(id));
+    });
+    return cardIds;
+  }
 
-  if (!isOpen) return null;
+  /**
+   * Indexed words a search word stands for: those it starts, else those a typo or two away
+   */
+  private expandWord(word: string): string[] {
+    const vocabulary = this.getVocabulary();
+
+    // Words starting with `word` sit together from the first one not sorting before it
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vocabulary[mid] < word) low = mid + 1;
+      else high = mid;
+    }
+    const prefixed: string[] = [];
+    for (let i = low; i < vocabulary.length && vocabulary[i].startsWith(word); i++) {
+      prefixed.push(vocabulary[i]);
+    }
+    if (prefixed.length > 0 || word.length < SEARCH_FUZZY_MIN_LENGTH) return prefixed;
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (title.trim()) {
-      onAdd(title.trim(), description.trim());
-      setTitle('');
-      setDescription('');
-      onClose();
+    let similar = this.fuzzyCache.get(word);
+    if (!similar) {
+      const maxTypos = word.length < SEARCH_FUZZY_LONG_LENGTH ? 1 : 2;
+      similar = vocabulary.filter(indexed => getEditDistance(word, indexed, maxTypos) <= maxTypos);
+      this.fuzzyCache.set(word, similar);
     }
-  };
+    return similar;
+  }
 
-  return (
-    <div className="modal-overlay" onClick={onClose}>
-      <div className="modal" onClick={e => e.stopPropagation()}>
-        <div className="modal-header">
-          <h2>Novo Card</h2>
-          <button onClick={onClose} className="modal-close">
-            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
-        </div>
-        <form onSubmit={handleSubmit}>
-          <div className="form-group">
-            <label>Título *</label>
-            <input
-              type="text"
-              value={title}
-              onChange={e => setTitle(e.target.value)}
-              placeholder="Digite o título do card"
-              required
-              autoFocus
-            />
-          </div>
-          <div className="form-group">
-            <label>Descrição</label>
-            <textarea
-              value={description}
-              onChange={e => setDescription(e.target.value)}
-              placeholder="Digite a descrição (opcional)"
-              rows={4}
-            />
-          </div>
-          <div className="modal-actions">
-            <button type="button" onClick={onClose} className="btn-secondary">
-              Cancelar
-            </button>
-            <button type="submit" className="btn-primary">
-              Adicionar
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
-};
+  private getVocabulary(): string[] {
+    this.vocabulary ??= [...this.postings.keys()].sort();
+    return this.vocabulary;
+  }
+
+  private clearVocabulary(): void {
+    this.vocabulary = null;
+    this.fuzzyCache.clear();
+  }
+}
+
+// ============================================================================
+// IMPORT / EXPORT
+// ============================================================================
 
 /**
- * Modal for adding new column
+ * Wrap a board in the versioned export envelope
  */
-const AddColumnModal: React.FC<{
-  isOpen: boolean;
-  onClose: () => void;
-  onAdd: (title: string, color: string) => void;
-}> = ({ isOpen, onClose, onAdd }) => {
-  const [title, setTitle] = useState('');
-  const [color, setColor] = useState('#3b82f6');
+function createBoardExport(board: Board, data: BoardData): BoardExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    board: { name: board.name, description: board.description },
+    data,
+  };
+}
 
-  if (!isOpen) return null;
+/**
+ * Let the browser save a file with the given content
+ */
+function downloadFile(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (title.trim()) {
-      onAdd(title.trim(), color);
-      setTitle('');
-      setColor('#3b82f6');
-      onClose();
-    }
-  };
+/**
+ * File name for an export, e.g. "meu-quadro-2025-01-31.json"
+ */
+function getExportFileName(board: Board, extension: string): string {
+  const slug = board.name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'quadro'}-${toDateKey(new Date())}.${extension}`;
+}
 
-  const colorPresets = [
-    '#ef4444', '#f97316', '#f59e0b', '#84cc16',
-    '#10b981', '#14b8a6', '#3b82f6', '#6366f1',
-    '#8b5cf6', '#d946ef', '#ec4899', '#64748b'
-  ];
+/**
+ * Quote a CSV field when needed, and defuse values a spreadsheet would run as a formula
+ */
+function toCsvField(value: string): string {
+  const safe = CSV_FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
 
-  return (
-    <div className="modal-overlay" onClick={onClose}>
-      <div className="modal" onClick={e => e.stopPropagation()}>
-        <div className="modal-header">
-          <h2>Nova Coluna</h2>
-          <button onClick={onClose} className="modal-close">
-            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
-        </div>
-        <form onSubmit={handleSubmit}>
-          <div className="form-group">
-            <label>Título *</label>
-            <input
-              type="text"
-              value={title}
-              onChange={e => setTitle(e.target.value)}
-              placeholder="Digite o título da coluna"
-              required
-              autoFocus
-            />
-          </div>
-          <div className="form-group">
-            <label>Cor da Coluna</label>
-            <div className="color-picker">
-              {colorPresets.map(presetColor => (
-                <button
-                  key={presetColor}
-                  type="button"
-                  className={`color-option ${color === presetColor ? 'selected' : ''}`}
-                  style={{ backgroundColor: presetColor }}
-                  onClick={() => setColor(presetColor)}
-                />
-              ))}
-            </div>
-          </div>
-          <div className="modal-actions">
-            <button type="button" onClick={onClose} className="btn-secondary">
-              Cancelar
-            </button>
-            <button type="submit" className="btn-primary">
-              Adicionar
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
-};
+/**
+ * Undo the formula guard toCsvField adds
+ */
+function fromCsvField(value: string): string {
+  return value.startsWith("'") && CSV_FORMULA_PATTERN.test(value.slice(1)) ? value.slice(1) : value;
+}
 
 /**
- * Modal for managing labels
+ * One row per card; the title, description, column and labels headers can be read back by the CSV importer
  */
-const ManageLabelsModal: React.FC<{
-  isOpen: boolean;
-  onClose: () => void;
-  labels: Label[];
-  onAddLabel: (name: string, color: LabelColor) => void;
-  onUpdateLabel: (id: string, name: string) => void;
-  onDeleteLabel: (id: string) => void;
-}> = ({ isOpen, onClose, labels, onAddLabel, onUpdateLabel, onDeleteLabel }) => {
-  const [newLabelName, setNewLabelName] = useState('');
-  const [newLabelColor, setNewLabelColor] = useState<LabelColor>('blue');
-  const [editingLabelId, setEditingLabelId] = useState<string | null>(null);
-  const [editingLabelName, setEditingLabelName] = useState('');
+function exportCardsToCsv(sections: ColumnCards[], data: BoardData): string {
+  const labelName = (id: string) => data.labels.find(l => l.id === id)?.name;
+  const memberName = (id: string) => data.members?.find(m => m.id === id)?.name;
 
-  if (!isOpen) return null;
+  const header = [
+    'Título', 'Descrição', 'Coluna', 'Labels', 'Responsáveis',
+    'Prioridade', 'Início', 'Entrega', 'Checklist', 'Criado em',
+  ];
+  const rows = sections.flatMap(({ column, cards }) => cards.map(card => {
+    const progress = getChecklistProgress(card.checklists);
+    return [
+      card.title,
+      card.description,
+      column.title,
+      card.labels.map(labelName).filter(Boolean).join(', '),
+      (card.assignees ?? []).map(memberName).filter(Boolean).join(', '),
+      PRIORITY_OPTIONS.find(option => option.value === card.priority)?.label ?? '',
+      card.startDate ?? '',
+      card.dueDate ?? '',
+      progress.total > 0 ? `${progress.done}/${progress.total}` : '',
+      toDateKey(new Date(card.createdAt)),
+    ];
+  }));
+
+  // BOM so spreadsheet apps read the file as UTF-8
+  return '\uFEFF' + [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]#|<>])/g, '\\$1');
+}
 
-  const handleAddLabel = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (newLabelName.trim()) {
-      onAddLabel(newLabelName.trim(), newLabelColor);
-      setNewLabelName('');
-      setNewLabelColor('blue');
-    }
-  };
+/**
+ * Status report grouped by column, one bullet per card
+ */
+function exportCardsToMarkdown(board: Board, sections: ColumnCards[], data: BoardData, isFiltered: boolean): string {
+  const labelName = (id: string) => data.labels.find(l => l.id === id)?.name;
+  const memberName = (id: string) => data.members?.find(m => m.id === id)?.name;
+  const cardCount = sections.reduce((count, section) => count + section.cards.length, 0);
+  const exportedAt = new Date().toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+  const lines = [
+    `# ${escapeMarkdown(board.name)}`,
+    '',
+    `Exportado em ${exportedAt} · ${cardCount} cards${isFiltered ? ' (com filtros aplicados)' : ''}`,
+  ];
+  if (board.description) lines.push('', escapeMarkdown(board.description));
 
-  const handleUpdateLabel = (id: string) => {
-    if (editingLabelName.trim()) {
-      onUpdateLabel(id, editingLabelName.trim());
-      setEditingLabelId(null);
-      setEditingLabelName('');
+  sections.forEach(({ column, cards }) => {
+    lines.push('', `## ${escapeMarkdown(column.title)} (${cards.length})`, '');
+    if (cards.length === 0) {
+      lines.push('_Nenhum card_');
+      return;
     }
-  };
+    cards.forEach(card => {
+      const progress = getChecklistProgress(card.checklists);
+      const details = [
+        ...card.labels.map(labelName).filter(Boolean).map(name => `\`${name}\``),
+        ...(card.assignees ?? []).map(memberName).filter(Boolean).map(name => `@${escapeMarkdown(name!)}`),
+        PRIORITY_OPTIONS.find(option => option.value === card.priority)?.label,
+        card.startDate && `Início ${formatDateKey(card.startDate)}`,
+        card.dueDate && `Entrega ${formatDateKey(card.dueDate)}`,
+        progress.total > 0 && `Checklist ${progress.done}/${progress.total}`,
+      ].filter(Boolean);
+
+      lines.push(`- **${escapeMarkdown(card.title)}**${details.length > 0 ? ` — ${details.join(' · ')}` : ''}`);
+      card.description.split(/\r?\n/).filter(line => line.trim()).forEach(line => {
+        lines.push(`  ${escapeMarkdown(line)}`);
+      });
+    });
+  });
 
-  const startEditing = (label: Label) => {
-    setEditingLabelId(label.id);
-    setEditingLabelName(label.name);
+  return lines.join('\n') + '\n';
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDateKey = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/**
+ * Parse and validate an exported board, collecting every problem instead of stopping at the first
+ */
+function parseBoardExport(text: string): BoardExportParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`O arquivo não é um JSON válido: ${(error as Error).message}`] };
+  }
+
+  if (!isRecord(raw) || raw.format !== EXPORT_FORMAT) {
+    return { ok: false, errors: ['O arquivo não é uma exportação de quadro Kanban.'] };
+  }
+  if (typeof raw.version !== 'number' || raw.version > EXPORT_VERSION) {
+    return {
+      ok: false,
+      errors: [`Versão de exportação não suportada: ${raw.version} (máximo ${EXPORT_VERSION}).`],
+    };
+  }
+
+  const errors: string[] = [];
+  const check = (condition: unknown, message: string) => {
+    if (!condition) errors.push(message);
   };
 
-  return (
-    <div className="modal-overlay" onClick={onClose}>
-      <div className="modal modal-large" onClick={e => e.stopPropagation()}>
-        <div className="modal-header">
-          <h2>Gerenciar Labels</h2>
-          <button onClick={onClose} className="modal-close">
-            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
-        </div>
+  check(isRecord(raw.board) && typeof raw.board.name === 'string' && raw.board.name.trim(), 'board.name: nome do quadro ausente.');
+  if (!isRecord(raw.data)) {
+    errors.push('data: dados do quadro ausentes.');
+    return { ok: false, errors };
+  }
 
-        <div className="labels-list">
-          {labels.map(label => (
-            <div key={label.id} className="label-item">
-              <span
-                className="label-color-badge"
-                style={{ backgroundColor: LABEL_COLORS[label.color] }}
-              />
-              {editingLabelId === label.id ? (
-                <input
-                  type="text"
-                  value={editingLabelName}
-                  onChange={e => setEditingLabelName(e.target.value)}
-                  onBlur={() => handleUpdateLabel(label.id)}
-                  onKeyDown={e => {
-                    if (e.key === 'Enter') handleUpdateLabel(label.id);
-                    if (e.key === 'Escape') {
-                      setEditingLabelId(null);
-                      setEditingLabelName('');
-                    }
-                  }}
-                  className="label-edit-input"
-                  autoFocus
-                />
-              ) : (
-                <span className="label-name" onClick={() => startEditing(label)}>
-                  {label.name}
-                </span>
-              )}
-              <button
-                onClick={() => onDeleteLabel(label.id)}
-                className="btn-delete-label"
-                aria-label="Excluir label"
-              >
-                <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                </svg>
-              </button>
-            </div>
-          ))}
-        </div>
+  const data = raw.data;
+  const ids: Record<string, Set<string>> = {};
+
+  // Shape of each entity, plus duplicate ids within the file
+  const checkCollection = (
+    name: keyof BoardData,
+    required: boolean,
+    checkItem: (item: Record<string, unknown>, path: string) => void
+  ) => {
+    ids[name] = new Set();
+    if (data[name] === undefined && !required) return;
+    if (!Array.isArray(data[name])) {
+      errors.push(`data.${name}: deve ser uma lista.`);
+      return;
+    }
+    data[name].forEach((item: unknown, index: number) => {
+      const path = `data.${name}[${index}]`;
+      if (!isRecord(item)) {
+        errors.push(`${path}: deve ser um objeto.`);
+        return;
+      }
+      if (typeof item.id !== 'string' || !item.id) {
+        errors.push(`${path}.id: ID ausente.`);
+      } else if (ids[name].has(item.id)) {
+        errors.push(`${path}.id: ID duplicado "${item.id}".`);
+      } else {
+        ids[name].add(item.id);
+      }
+      checkItem(item, path);
+    });
+  };
 
-        <form onSubmit={handleAddLabel} className="add-label-form">
-          <h3>Adicionar Nova Label</h3>
-          <div className="form-row">
-            <div className="form-group">
-              <label>Nome</label>
-              <input
-                type="text"
-                value={newLabelName}
-                onChange={e => setNewLabelName(e.target.value)}
-                placeholder="Nome da label"
-                required
-              />
-            </div>
-            <div className="form-group">
-              <label>Cor</label>
-              <select
-                value={newLabelColor}
-                onChange={e => setNewLabelColor(e.target.value as LabelColor)}
-              >
-                {Object.keys(LABEL_COLORS).map(color => (
-                  <option key={color} value={color}>
-                    {color.charAt(0).toUpperCase() + color.slice(1)}
-                  </option>
-                ))}
-              </select>
-            </div>
-            <button type="submit" className="btn-primary">
-              Adicionar
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
-};
+  // Lists nested in an entity, such as a card's checklists
+  const checkNestedList = (
+    value: unknown,
+    path: string,
+    required: boolean,
+    checkItem: (item: Record<string, unknown>, path: string) => void
+  ) => {
+    if (value === undefined && !required) return;
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: deve ser uma lista.`);
+      return;
+    }
+    value.forEach((item: unknown, index: number) => {
+      const itemPath = `${path}[${index}]`;
+      if (!isRecord(item)) {
+        errors.push(`${itemPath}: deve ser um objeto.`);
+        return;
+      }
+      checkItem(item, itemPath);
+    });
+  };
 
-// ============================================================================
-// MAIN APP COMPONENT
-// ============================================================================
+  const isLabelColor = (value: unknown) => typeof value === 'string' && value in LABEL_COLORS;
 
-const App: React.FC = () => {
-  // Initialize dark mode from storage
-  const [darkMode, setDarkMode] = useState(() => {
-    return StorageService.loadFromStorage(StorageService.getKeys().DARK_MODE, false);
+  checkCollection('columns', true, (column, path) => {
+    check(typeof column.title === 'string', `${path}.title: deve ser um texto.`);
+    check(typeof column.order === 'number', `${path}.order: deve ser um número.`);
+    check(typeof column.color === 'string', `${path}.color: deve ser um texto.`);
+    check(
+      column.wipLimit === undefined || (typeof column.wipLimit === 'number' && Number.isInteger(column.wipLimit) && column.wipLimit > 0),
+      `${path}.wipLimit: deve ser um inteiro positivo.`
+    );
+    check(
+      column.wipMode === undefined || column.wipMode === 'warn' || column.wipMode === 'block',
+      `${path}.wipMode: deve ser "warn" ou "block".`
+    );
+  });
+  checkCollection('labels', true, (label, path) => {
+    check(typeof label.name === 'string', `${path}.name: deve ser um texto.`);
+    check(isLabelColor(label.color), `${path}.color: cor inválida "${label.color}".`);
+  });
+  checkCollection('members', false, (member, path) => {
+    check(typeof member.name === 'string', `${path}.name: deve ser um texto.`);
+    check(typeof member.initials === 'string', `${path}.initials: deve ser um texto.`);
+    check(isLabelColor(member.color), `${path}.color: cor inválida "${member.color}".`);
+  });
+  checkCollection('lanes', false, (lane, path) => {
+    check(typeof lane.title === 'string', `${path}.title: deve ser um texto.`);
+    check(typeof lane.order === 'number', `${path}.order: deve ser um número.`);
+  });
+  checkCollection('cards', true, (card, path) => {
+    check(typeof card.title === 'string', `${path}.title: deve ser um texto.`);
+    check(typeof card.description === 'string', `${path}.description: deve ser um texto.`);
+    check(typeof card.order === 'number', `${path}.order: deve ser um número.`);
+    check(typeof card.createdAt === 'number', `${path}.createdAt: deve ser um número.`);
+    check(typeof card.columnId === 'string' && ids.columns.has(card.columnId), `${path}.columnId: coluna inexistente "${card.columnId}".`);
+    if (Array.isArray(card.labels)) {
+      card.labels
+        .filter((id: unknown) => typeof id !== 'string' || !ids.labels.has(id))
+        .forEach((id: unknown) => errors.push(`${path}.labels: label inexistente "${id}".`));
+    } else {
+      errors.push(`${path}.labels: deve ser uma lista.`);
+    }
+    if (card.assignees !== undefined) {
+      if (Array.isArray(card.assignees)) {
+        card.assignees
+          .filter((id: unknown) => typeof id !== 'string' || !ids.members.has(id))
+          .forEach((id: unknown) => errors.push(`${path}.assignees: membro inexistente "${id}".`));
+      } else {
+        errors.push(`${path}.assignees: deve ser uma lista.`);
+      }
+    }
+    check(card.laneId === undefined || (typeof card.laneId === 'string' && ids.lanes.has(card.laneId)), `${path}.laneId: raia inexistente "${card.laneId}".`);
+    check(card.startDate === undefined || isDateKey(card.startDate), `${path}.startDate: data inválida (use AAAA-MM-DD).`);
+    check(card.dueDate === undefined || isDateKey(card.dueDate), `${path}.dueDate: data inválida (use AAAA-MM-DD).`);
+    check(
+      card.priority === undefined || PRIORITY_OPTIONS.some(option => option.value === card.priority),
+      `${path}.priority: prioridade inválida "${card.priority}".`
+    );
+    checkNestedList(card.checklists, `${path}.checklists`, false, (checklist, checklistPath) => {
+      check(typeof checklist.id === 'string' && checklist.id, `${checklistPath}.id: ID ausente.`);
+      check(typeof checklist.title === 'string', `${checklistPath}.title: deve ser um texto.`);
+      checkNestedList(checklist.items, `${checklistPath}.items`, true, (item, itemPath) => {
+        check(typeof item.id === 'string' && item.id, `${itemPath}.id: ID ausente.`);
+        check(typeof item.text === 'string', `${itemPath}.text: deve ser um texto.`);
+        check(typeof item.done === 'boolean', `${itemPath}.done: deve ser verdadeiro ou falso.`);
+      });
+    });
+    checkNestedList(card.comments, `${path}.comments`, false, (comment, commentPath) => {
+      check(typeof comment.id === 'string' && comment.id, `${commentPath}.id: ID ausente.`);
+      check(typeof comment.author === 'string', `${commentPath}.author: deve ser um texto.`);
+      check(comment.authorId === undefined || typeof comment.authorId === 'string', `${commentPath}.authorId: deve ser um texto.`);
+      check(typeof comment.body === 'string', `${commentPath}.body: deve ser um texto.`);
+      check(typeof comment.createdAt === 'number', `${commentPath}.createdAt: deve ser um número.`);
+      check(
+        comment.updatedAt === undefined || typeof comment.updatedAt === 'number',
+        `${commentPath}.updatedAt: deve ser um número.`
+      );
+    });
+  });
+  checkCollection('views', false, (view, path) => {
+    check(typeof view.name === 'string', `${path}.name: deve ser um texto.`);
+    check(typeof view.pinned === 'boolean', `${path}.pinned: deve ser verdadeiro ou falso.`);
+    check(
+      isRecord(view.filters) && typeof view.filters.search === 'string' && Array.isArray(view.filters.labels),
+      `${path}.filters: filtros inválidos.`
+    );
+  });
+  checkCollection('activity', false, (event, path) => {
+    check(typeof event.description === 'string', `${path}.description: deve ser um texto.`);
+    check(typeof event.actor === 'string', `${path}.actor: deve ser um texto.`);
+    check(typeof event.timestamp === 'number', `${path}.timestamp: deve ser um número.`);
+    checkNestedList(event.changes, `${path}.changes`, true, (change, changePath) => {
+      check(
+        BOARD_COLLECTIONS.some(collection => collection === change.collection),
+        `${changePath}.collection: coleção inválida "${change.collection}".`
+      );
+      check(typeof change.id === 'string', `${changePath}.id: deve ser um texto.`);
+      check(change.field === undefined || typeof change.field === 'string', `${changePath}.field: deve ser um texto.`);
+    });
   });
 
-  // Initialize controller with model loaded from storage
-  const [controller] = useState(() => {
-    const model = KanbanModel.loadFromStorage();
-    return new KanbanController(model);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, file: raw as unknown as BoardExport };
+}
+
+/**
+ * Lowercase and strip accents, for forgiving name matching
+ */
+function normalizeName(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+/**
+ * Map a Trello board export (Menu > Print, export and share > Export as JSON) to an external board.
+ * Archived lists and cards are left out.
+ */
+function parseTrelloBoard(text: string): ExternalBoardParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { ok: false, errors: [`O arquivo não é um JSON válido: ${(error as Error).message}`] };
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.lists) || !Array.isArray(raw.cards)) {
+    return { ok: false, errors: ['O arquivo não parece uma exportação do Trello (faltam "lists" e "cards").'] };
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // Entries of a Trello list that are objects; anything else is reported
+  const getRecords = (value: unknown, path: string): Record<string, unknown>[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: deve ser uma lista.`);
+      return [];
+    }
+    value.forEach((item: unknown, index: number) => {
+      if (!isRecord(item)) errors.push(`${path}[${index}]: deve ser um objeto.`);
+    });
+    return value.filter(isRecord);
+  };
+  const byPos = (a: Record<string, unknown>, b: Record<string, unknown>) =>
+    (typeof a.pos === 'number' ? a.pos : 0) - (typeof b.pos === 'number' ? b.pos : 0);
+
+  const lists = getRecords(raw.lists, 'lists').filter(list => !list.closed).sort(byPos);
+  const listNames = new Map<string, string>(lists.map(list => [String(list.id), String(list.name ?? '').trim() || 'Sem nome']));
+
+  const labelNames = new Map<string, string>();
+  const labels: ExternalBoard['labels'] = [];
+  getRecords(raw.labels, 'labels').forEach(label => {
+    const baseColor = String(label.color ?? '').replace(/_(light|dark)$/, '');
+    const color = TRELLO_LABEL_COLORS[baseColor] ?? 'gray';
+    const name = String(label.name ?? '').trim() || `Sem nome (${baseColor || 'sem cor'})`;
+    labelNames.set(String(label.id), name);
+    if (!labels.some(l => normalizeName(l.name) === normalizeName(name))) labels.push({ name, color });
   });
 
-  // State management
-  const [, forceUpdate] = useState({});
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedLabels, setSelectedLabels] = useState<string[]>([]);
-  const [dragState, setDragState] = useState<DragState>({
-    draggedCard: null,
-    sourceColumnId: null,
-    isDragging: false
+  const checklistsByCard = new Map<string, Checklist[]>();
+  getRecords(raw.checklists, 'checklists').sort(byPos).forEach(checklist => {
+    const items = getRecords(checklist.checkItems, `checklist "${String(checklist.name ?? '')}": checkItems`)
+      .sort(byPos)
+      .map(item => ({
+        id: generateId('item'),
+        text: String(item.name ?? ''),
+        done: item.state === 'complete',
+      }));
+    const cardChecklists = checklistsByCard.get(String(checklist.idCard)) ?? [];
+    cardChecklists.push({ id: generateId('checklist'), title: String(checklist.name ?? ''), items });
+    checklistsByCard.set(String(checklist.idCard), cardChecklists);
   });
-  const [dragOverColumnId, setDragOverColumnId] = useState<string | null>(null);
 
-  // Modal states
-  const [addCardModal, setAddCardModal] = useState<{ isOpen: boolean; columnId: string | null }>({
-    isOpen: false,
-    columnId: null
+  const toDate = (value: unknown) => {
+    if (typeof value !== 'string') return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : toDateKey(date);
+  };
+
+  const cards: ExternalCard[] = [];
+  getRecords(raw.cards, 'cards').filter(card => !card.closed).sort(byPos).forEach(card => {
+    const columnTitle = listNames.get(String(card.idList));
+    if (!columnTitle) {
+      warnings.push(`Card "${card.name}" ignorado: está em uma lista arquivada ou inexistente.`);
+      return;
+    }
+    cards.push({
+      title: String(card.name ?? '').trim() || 'Sem título',
+      description: String(card.desc ?? ''),
+      columnTitle,
+      labelNames: (Array.isArray(card.idLabels) ? card.idLabels : [])
+        .map((id: unknown) => labelNames.get(String(id)))
+        .filter((name: string | undefined): name is string => name !== undefined),
+      startDate: toDate(card.start),
+      dueDate: toDate(card.due),
+      checklists: checklistsByCard.get(String(card.id)),
+    });
   });
-  const [addColumnModal, setAddColumnModal] = useState(false);
-  const [manageLabelsModal, setManageLabelsModal] = useState(false);
 
-  // Subscribe to controller changes
-  useEffect(() => {
-    const unsubscribe = controller.subscribe(() => {
-      forceUpdate({});
-    });
-    return unsubscribe;
-  }, [controller]);
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    board: {
+      source: 'trello',
+      columns: lists.map(list => ({ title: listNames.get(String(list.id))! })),
+      labels,
+      cards,
+      warnings,
+    },
+  };
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting; fields may span lines)
+ */
+function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim()));
+}
+
+/**
+ * Map a spreadsheet with title, description, column and labels columns to an external board.
+ * Comma- and semicolon-separated files are both accepted; labels within a cell are split on , ; or |.
+ */
+function parseCsvBoard(text: string): ExternalBoardParseResult {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const [header, ...rows] = parseCsv(content, delimiter);
+
+  if (!header) return { ok: false, errors: ['O arquivo CSV está vazio.'] };
+
+  const headerNames = header.map(normalizeName);
+  const indexOf = (key: keyof typeof CSV_COLUMNS) =>
+    headerNames.findIndex(name => CSV_COLUMNS[key].includes(name));
+  const columnIndexes = {
+    title: indexOf('title'),
+    description: indexOf('description'),
+    column: indexOf('column'),
+    labels: indexOf('labels'),
+  };
+
+  if (columnIndexes.title === -1) {
+    return {
+      ok: false,
+      errors: [`Coluna de título não encontrada. Cabeçalhos aceitos: ${CSV_COLUMNS.title.join(', ')}. Encontrados: ${header.join(', ')}.`],
+    };
+  }
+
+  const warnings: string[] = [];
+  const columns: ExternalBoard['columns'] = [];
+  const labels: ExternalBoard['labels'] = [];
+  const cards: ExternalCard[] = [];
+  const cell = (row: string[], index: number) => (index === -1 ? '' : fromCsvField(row[index] ?? '').trim());
+
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const title = cell(row, columnIndexes.title);
+    if (!title) {
+      warnings.push(`Linha ${line} ignorada: título vazio.`);
+      return;
+    }
+
+    let columnTitle = cell(row, columnIndexes.column);
+    if (!columnTitle) {
+      if (columnIndexes.column !== -1) warnings.push(`Linha ${line}: coluna vazia, card enviado para "${IMPORTED_COLUMN_FALLBACK}".`);
+      columnTitle = IMPORTED_COLUMN_FALLBACK;
+    }
+    if (!columns.some(c => normalizeName(c.title) === normalizeName(columnTitle))) {
+      columns.push({ title: columnTitle });
+    }
+
+    const labelNames = cell(row, columnIndexes.labels).split(/[,;|]/).map(name => name.trim()).filter(Boolean);
+    labelNames.forEach(name => {
+      if (!labels.some(l => normalizeName(l.name) === normalizeName(name))) {
+        labels.push({ name, color: 'gray' });
+      }
+    });
+
+    cards.push({ title, description: cell(row, columnIndexes.description), columnTitle, labelNames });
+  });
+
+  if (cards.length === 0) return { ok: false, errors: ['Nenhum card encontrado no arquivo.', ...warnings] };
+  return { ok: true, board: { source: 'csv', columns, labels, cards, warnings } };
+}
+
+/**
+ * How many imported entities share an id with the current board
+ */
+function countImportConflicts(current: BoardData, incoming: BoardData): number {
+  const collections = ['columns', 'cards', 'labels', 'members', 'lanes'] as const;
+  return collections.reduce((count, name) => {
+    const existing = new Set((current[name] ?? []).map(item => item.id));
+    return count + (incoming[name] ?? []).filter(item => existing.has(item.id)).length;
+  }, 0);
+}
+
+// ============================================================================
+// MODEL LAYER
+// ============================================================================
+
+/**
+ * Kanban Board Model - Handles data structure and business logic
+ */
+class KanbanModel {
+  private columns: Column[];
+  private cards: Card[];
+  private labels: Label[];
+  private members: Member[];
+  private lanes: Lane[];
+  private views: SavedView[];
+  private activity: ActivityEvent[];
+  private searchIndex = new SearchIndex();
+  private boardId: string;
+  private adapter: PersistenceAdapter;
+  private loadError: string | null = null;
+
+  constructor(
+    initialData?: BoardData,
+    boardId: string = DEFAULT_BOARD_ID,
+    adapter: PersistenceAdapter = new LocalStorageAdapter()
+  ) {
+    this.columns = initialData?.columns || [...DEFAULT_COLUMNS];
+    this.cards = initialData?.cards || [];
+    this.labels = initialData?.labels || [...DEFAULT_LABELS];
+    this.members = initialData?.members || [];
+    this.lanes = initialData?.lanes || [];
+    this.views = initialData?.views || [];
+    this.activity = initialData?.activity || [];
+    this.boardId = boardId;
+    this.adapter = adapter;
+    this.searchIndex.rebuild(this.cards);
+  }
+
+  /**
+   * Get all board data
+   */
+  getAllData(): BoardData {
+    return {
+      columns: [...this.columns],
+      cards: [...this.cards],
+      labels: [...this.labels],
+      members: [...this.members],
+      lanes: [...this.lanes],
+      views: [...this.views],
+      activity: [...this.activity],
+    };
+  }
+
+  /**
+   * Replace all board data (used when restoring history snapshots)
+   */
+  replaceData(data: BoardData): void {
+    this.columns = data.columns;
+    this.cards = data.cards;
+    this.labels = data.labels;
+    this.members = data.members || [];
+    this.lanes = data.lanes || [];
+    this.views = data.views || [];
+    this.activity = data.activity || [];
+    this.searchIndex.rebuild(this.cards);
+  }
+
+  // ==================== COLUMN OPERATIONS ====================
+
+  /**
+   * Get all columns sorted by order
+   */
+  getColumns(): Column[] {
+    return [...this.columns].sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Add new column
+   */
+  addColumn(title: string, color: string): Column {
+    const newColumn: Column = {
+      id: `col_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      title,
+      order: this.columns.length,
+      color,
+    };
+    this.columns.push(newColumn);
+    return newColumn;
+  }
+
+  /**
+   * Update column
+   */
+  updateColumn(id: string, updates: Partial<Column>): Column | null {
+    const index = this.columns.findIndex(c => c.id === id);
+    if (index === -1) return null;
+
+    this.columns[index] = { ...this.columns[index], ...updates };
+    return this.columns[index];
+  }
+
+  /**
+   * Delete column and its cards
+   */
+  deleteColumn(id: string): boolean {
+    const initialLength = this.columns.length;
+    this.columns = this.columns.filter(c => c.id !== id);
+    this.cards
+      .filter(c => c.columnId === id)
+      .forEach(c => this.searchIndex.remove(c.id));
+    this.cards = this.cards.filter(c => c.columnId !== id);
+    return this.columns.length < initialLength;
+  }
+
+  /**
+   * Reorder columns
+   */
+  reorderColumns(columnIds: string[]): void {
+    columnIds.forEach((id, index) => {
+      const column = this.columns.find(c => c.id === id);
+      if (column) column.order = index;
+    });
+  }
+
+  // ==================== CARD OPERATIONS ====================
+
+  /**
+   * Get card by ID
+   */
+  getCard(id: string): Card | null {
+    return this.cards.find(c => c.id === id) || null;
+  }
+
+  /**
+   * Get cards by column ID
+   */
+  getCardsByColumn(columnId: string): Card[] {
+    return this.cards
+      .filter(c => c.columnId === columnId)
+      .sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Add new card
+   */
+  addCard(card: Omit<Card, 'id' | 'createdAt' | 'order'>): Card {
+    const columnCards = this.getCardsByColumn(card.columnId);
+    const newCard: Card = {
+      ...card,
+      id: `card_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      order: columnCards.length,
+      createdAt: Date.now(),
+    };
+    this.cards.push(newCard);
+    this.searchIndex.update(newCard);
+    return newCard;
+  }
+
+  /**
+   * Update card
+   */
+  updateCard(id: string, updates: Partial<Card>): Card | null {
+    const index = this.cards.findIndex(c => c.id === id);
+    if (index === -1) return null;
+
+    this.cards[index] = { ...this.cards[index], ...updates };
+    this.searchIndex.update(this.cards[index]);
+    return this.cards[index];
+  }
+
+  /**
+   * Delete card
+   */
+  deleteCard(id: string): boolean {
+    const initialLength = this.cards.length;
+    this.cards = this.cards.filter(c => c.id !== id);
+    this.searchIndex.remove(id);
+    return this.cards.length < initialLength;
+  }
+
+  /**
+   * Why a card cannot enter a column because of its hard WIP limit, or null if it can.
+   * Pass cardId when moving an existing card; moves within its own column are always allowed.
+   */
+  getWipLimitViolation(columnId: string, cardId?: string): string | null {
+    const column = this.columns.find(c => c.id === columnId);
+    if (!column?.wipLimit || column.wipMode !== 'block') return null;
+    if (cardId && this.getCard(cardId)?.columnId === columnId) return null;
+
+    const count = this.getCardsByColumn(columnId).length;
+    if (count < column.wipLimit) return null;
+    return `A coluna "${column.title}" atingiu o limite de ${column.wipLimit} cards. Conclua ou mova um card antes de adicionar outro.`;
+  }
+
+  /**
+   * Move card to a position in the same or another column.
+   * targetOrder is the card's index in the target column once it has been removed
+   * from its current place; both affected columns are renumbered 0..n-1.
+   */
+  moveCard(cardId: string, targetColumnId: string, targetOrder: number): Card | null {
+    const card = this.cards.find(c => c.id === cardId);
+    if (!card) return null;
+
+    const sourceColumnId = card.columnId;
+
+    // Insert card into target column
+    const targetCards = this.getCardsByColumn(targetColumnId).filter(c => c.id !== cardId);
+    const index = Math.max(0, Math.min(targetOrder, targetCards.length));
+    targetCards.splice(index, 0, card);
+
+    // Update card and renormalize orders
+    card.columnId = targetColumnId;
+    targetCards.forEach((c, i) => { c.order = i; });
+
+    if (sourceColumnId !== targetColumnId) {
+      this.getCardsByColumn(sourceColumnId).forEach((c, i) => { c.order = i; });
+    }
+
+    return card;
+  }
+
+  /**
+   * Search cards by term
+   */
+  searchCards(query: ParsedSearchQuery, currentMemberId: string | null = null, today: Date = new Date()): Card[] {
+    return this.cards.filter(this.createSearchPredicate(query, currentMemberId, today));
+  }
+
+  /**
+   * Cards passing the search query and every filter of the filter bar, in a single pass
+   */
+  filterCards(
+    filters: BoardFilters,
+    query: ParsedSearchQuery,
+    currentMemberId: string | null = null,
+    today: Date = new Date()
+  ): Card[] {
+    const matchesQuery = this.createSearchPredicate(query, currentMemberId, today);
+    return this.cards.filter(card =>
+      this.matchesLabelFilter(card, filters.labels, filters.labelMode) &&
+      this.matchesDueFilter(card, filters.due, today) &&
+      this.matchesAssigneeFilter(card, filters.assignee, currentMemberId) &&
+      matchesQuery(card)
+    );
+  }
+
+  /**
+   * Check for a whole query; names are resolved once per query rather than once per card
+   */
+  private createSearchPredicate(
+    query: ParsedSearchQuery,
+    currentMemberId: string | null,
+    today: Date
+  ): (card: Card) => boolean {
+    const predicates = query.terms.map(term => {
+      const matches = this.createTermPredicate(term, currentMemberId, today);
+      return (card: Card) => matches(card) !== term.negated;
+    });
+    return card => predicates.every(matches => matches(card));
+  }
+
+  /**
+   * Check whether a card matches one search term, ignoring its negation
+   */
+  private createTermPredicate(term: SearchTerm, currentMemberId: string | null, today: Date): (card: Card) => boolean {
+    const value = normalizeName(term.value);
+    const isNone = SEARCH_NONE_VALUES.includes(value);
+
+    switch (term.field) {
+      case 'text': {
+        const cardIds = this.searchIndex.match(term.value);
+        return card => cardIds.has(card.id);
+      }
+      case 'label': {
+        if (isNone) return card => card.labels.length === 0;
+        const labelIds = this.findSearchMatches('label', value);
+        return card => labelIds.some(id => card.labels.includes(id));
+      }
+      case 'column': {
+        const columnIds = this.findSearchMatches('column', value);
+        return card => columnIds.includes(card.columnId);
+      }
+      case 'lane': {
+        if (isNone) return card => !card.laneId;
+        const laneIds = this.findSearchMatches('lane', value);
+        return card => laneIds.includes(card.laneId ?? '');
+      }
+      case 'assignee': {
+        if (isNone) return card => !card.assignees?.length;
+        const memberIds = value === 'me' || value === 'eu'
+          ? (currentMemberId !== null ? [currentMemberId] : [])
+          : this.findSearchMatches('assignee', value);
+        return card => memberIds.some(id => card.assignees?.includes(id));
+      }
+      case 'priority': {
+        if (isNone) return card => !card.priority;
+        const priorities = PRIORITY_OPTIONS
+          .filter(option => option.value === value || normalizeName(option.label) === value)
+          .map(option => option.value);
+        return card => card.priority !== undefined && priorities.includes(card.priority);
+      }
+      case 'due': {
+        const dueQuery = parseDueQuery(term.value)!;
+        return card => this.matchesDueQuery(card.dueDate, dueQuery, today);
+      }
+    }
+  }
+
+  private matchesDueQuery(dueDate: string | undefined, query: DueQuery, today: Date): boolean {
+    if (query.type === 'status') {
+      if (query.status === 'none') return !dueDate;
+      if (!dueDate) return false;
+      if (query.status === 'week') return isDueThisWeek(dueDate, today);
+      return query.status === 'overdue' ? getDueStatus(dueDate, today) === 'overdue' : dueDate === toDateKey(today);
+    }
+
+    if (!dueDate) return false;
+    const target = 'date' in query ? query.date : toDateKey(addDays(today, query.days));
+    switch (query.operator) {
+      case '<': return dueDate < target;
+      case '<=': return dueDate <= target;
+      case '>': return dueDate > target;
+      case '>=': return dueDate >= target;
+      case '=': return dueDate === target;
+    }
+  }
+
+  /**
+   * IDs of the labels, columns, lanes or members a search value names. Members
+   * match by full name, initials or any single name.
+   */
+  private findSearchMatches(field: 'label' | 'column' | 'lane' | 'assignee', value: string): string[] {
+    switch (field) {
+      case 'label':
+        return this.labels.filter(l => normalizeName(l.name) === value).map(l => l.id);
+      case 'column':
+        return this.columns.filter(c => normalizeName(c.title) === value).map(c => c.id);
+      case 'lane':
+        return this.lanes.filter(l => normalizeName(l.title) === value).map(l => l.id);
+      case 'assignee':
+        return this.members
+          .filter(m =>
+            normalizeName(m.name) === value ||
+            normalizeName(m.initials) === value ||
+            normalizeName(m.name).split(/\s+/).includes(value)
+          )
+          .map(m => m.id);
+    }
+  }
+
+  /**
+   * Syntax errors of a query plus terms naming labels, columns, lanes or members that don't exist
+   */
+  getSearchErrors(query: ParsedSearchQuery): SearchQueryError[] {
+    const notFound: Record<string, string> = {
+      label: 'Label "%s" não encontrada',
+      column: 'Coluna "%s" não encontrada',
+      lane: 'Raia "%s" não encontrada',
+      assignee: 'Membro "%s" não encontrado',
+    };
+    const unknown = query.terms
+      .filter(term => {
+        const value = normalizeName(term.value);
+        if (term.field !== 'label' && term.field !== 'column' && term.field !== 'lane' && term.field !== 'assignee') return false;
+        if (SEARCH_NONE_VALUES.includes(value) && term.field !== 'column') return false;
+        if (term.field === 'assignee' && (value === 'me' || value === 'eu')) return false;
+        return this.findSearchMatches(term.field, value).length === 0;
+      })
+      .map(term => ({
+        message: `${notFound[term.field].replace('%s', term.value)} neste quadro.`,
+        start: term.start,
+        end: term.end,
+      }));
+
+    return [...query.errors, ...unknown].sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Label filter: cards with any, all or none of the label IDs; NO_LABEL_FILTER matches unlabeled cards
+   */
+  private matchesLabelFilter(card: Card, labelIds: string[], mode: LabelMatchMode): boolean {
+    if (labelIds.length === 0) return true;
+    const hasLabel = (labelId: string) =>
+      labelId === NO_LABEL_FILTER ? card.labels.length === 0 : card.labels.includes(labelId);
+
+    if (mode === 'all') return labelIds.every(hasLabel);
+    return labelIds.some(hasLabel) !== (mode === 'exclude');
+  }
+
+  /**
+   * Assignee filter: everyone, the current member, nobody, or a given member
+   */
+  private matchesAssigneeFilter(card: Card, filter: AssigneeFilter, currentMemberId: string | null): boolean {
+    if (filter === 'all') return true;
+    if (filter === 'unassigned') return !card.assignees?.length;
+
+    const memberId = filter === 'me' ? currentMemberId : filter;
+    return memberId !== null && Boolean(card.assignees?.includes(memberId));
+  }
+
+  /**
+   * Due date filter: overdue, or due this week
+   */
+  private matchesDueFilter(card: Card, filter: DueFilter, today: Date): boolean {
+    if (filter === 'all') return true;
+    if (!card.dueDate) return false;
+    return filter === 'overdue'
+      ? getDueStatus(card.dueDate, today) === 'overdue'
+      : isDueThisWeek(card.dueDate, today);
+  }
+
+  // ==================== COMMENT OPERATIONS ====================
+
+  /**
+   * Add a comment to a card
+   */
+  addComment(cardId: string, body: string, author: string, authorId?: string): Comment | null {
+    const card = this.getCard(cardId);
+    if (!card) return null;
+
+    const comment: Comment = {
+      id: generateId('comment'),
+      author,
+      ...(authorId ? { authorId } : {}),
+      body,
+      createdAt: Date.now(),
+    };
+    this.updateCard(cardId, { comments: [...(card.comments ?? []), comment] });
+    return comment;
+  }
+
+  /**
+   * Edit a comment's text
+   */
+  updateComment(cardId: string, commentId: string, body: string): Comment | null {
+    const comment = this.getCard(cardId)?.comments?.find(c => c.id === commentId);
+    if (!comment || comment.body === body) return null;
+
+    const updated = { ...comment, body, updatedAt: Date.now() };
+    this.updateCard(cardId, {
+      comments: this.getCard(cardId)!.comments!.map(c => (c.id === commentId ? updated : c)),
+    });
+    return updated;
+  }
+
+  /**
+   * Delete a comment
+   */
+  deleteComment(cardId: string, commentId: string): boolean {
+    const comments = this.getCard(cardId)?.comments ?? [];
+    if (!comments.some(c => c.id === commentId)) return false;
+
+    this.updateCard(cardId, { comments: comments.filter(c => c.id !== commentId) });
+    return true;
+  }
+
+  // ==================== LABEL OPERATIONS ====================
+
+  /**
+   * Get all labels
+   */
+  getLabels(): Label[] {
+    return [...this.labels];
+  }
+
+  /**
+   * Add new label
+   */
+  addLabel(name: string, color: LabelColor): Label {
+    const newLabel: Label = {
+      id: `label_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      color,
+    };
+    this.labels.push(newLabel);
+    return newLabel;
+  }
+
+  /**
+   * Update label
+   */
+  updateLabel(id: string, updates: Partial<Label>): Label | null {
+    const index = this.labels.findIndex(l => l.id === id);
+    if (index === -1) return null;
+
+    this.labels[index] = { ...this.labels[index], ...updates };
+    return this.labels[index];
+  }
+
+  /**
+   * Delete label
+   */
+  deleteLabel(id: string): boolean {
+    const initialLength = this.labels.length;
+    this.labels = this.labels.filter(l => l.id !== id);
+
+    // Remove label from all cards
+    this.cards.forEach(card => {
+      card.labels = card.labels.filter(labelId => labelId !== id);
+    });
+
+    return this.labels.length < initialLength;
+  }
+
+  // ==================== MEMBER OPERATIONS ====================
+
+  /**
+   * Get all members
+   */
+  getMembers(): Member[] {
+    return [...this.members];
+  }
+
+  /**
+   * Add new member
+   */
+  addMember(name: string, color: LabelColor, initials: string = getInitials(name)): Member {
+    const newMember: Member = {
+      id: generateId('member'),
+      name,
+      initials,
+      color,
+    };
+    this.members.push(newMember);
+    return newMember;
+  }
+
+  /**
+   * Update member
+   */
+  updateMember(id: string, updates: Partial<Member>): Member | null {
+    const index = this.members.findIndex(m => m.id === id);
+    if (index === -1) return null;
+
+    this.members[index] = { ...this.members[index], ...updates };
+    return this.members[index];
+  }
+
+  /**
+   * Delete member
+   */
+  deleteMember(id: string): boolean {
+    const initialLength = this.members.length;
+    this.members = this.members.filter(m => m.id !== id);
+
+    // Unassign member from all cards
+    this.cards.forEach(card => {
+      if (card.assignees) {
+        card.assignees = card.assignees.filter(memberId => memberId !== id);
+      }
+    });
+
+    return this.members.length < initialLength;
+  }
+
+  // ==================== LANE OPERATIONS ====================
+
+  /**
+   * Get all user-defined lanes sorted by order
+   */
+  getLanes(): Lane[] {
+    return [...this.lanes].sort((a, b) => a.order - b.order);
+  }
+
+  /**
+   * Add new lane
+   */
+  addLane(title: string): Lane {
+    const newLane: Lane = {
+      id: generateId('lane'),
+      title,
+      order: this.lanes.length,
+    };
+    this.lanes.push(newLane);
+    return newLane;
+  }
+
+  /**
+   * Update lane
+   */
+  updateLane(id: string, updates: Partial<Lane>): Lane | null {
+    const index = this.lanes.findIndex(l => l.id === id);
+    if (index === -1) return null;
+
+    this.lanes[index] = { ...this.lanes[index], ...updates };
+    return this.lanes[index];
+  }
+
+  /**
+   * Delete lane; its cards fall back to the default lane
+   */
+  deleteLane(id: string): boolean {
+    const initialLength = this.lanes.length;
+    this.lanes = this.lanes.filter(l => l.id !== id);
+
+    this.cards.forEach(card => {
+      if (card.laneId === id) card.laneId = undefined;
+    });
+
+    return this.lanes.length < initialLength;
+  }
+
+  /**
+   * Lanes for a swimlane mode, ending with the '' lane for cards that fit no other
+   */
+  getSwimlanes(mode: SwimlaneMode): Swimlane[] {
+    switch (mode) {
+      case 'none':
+        return [];
+      case 'lanes':
+        return [
+          ...this.getLanes().map(lane => ({ key: lane.id, title: lane.title, editable: true })),
+          { key: '', title: 'Sem raia', editable: false },
+        ];
+      case 'label':
+        return [
+          ...this.labels.map(label => ({
+            key: label.id,
+            title: label.name,
+            color: LABEL_COLORS[label.color],
+            editable: false,
+          })),
+          { key: '', title: 'Sem label', editable: false },
+        ];
+      case 'assignee':
+        return [
+          ...this.members.map(member => ({
+            key: member.id,
+            title: member.name,
+            color: LABEL_COLORS[member.color],
+            editable: false,
+          })),
+          { key: '', title: 'Sem responsável', editable: false },
+        ];
+      case 'priority':
+        return [
+          ...PRIORITY_OPTIONS.map(option => ({
+            key: option.value,
+            title: option.label,
+            color: option.color,
+            editable: false,
+          })),
+          { key: '', title: 'Sem prioridade', editable: false },
+        ];
+    }
+  }
+
+  /**
+   * Lane a card belongs to. Cards with several labels or assignees
+   * are placed by the first one.
+   */
+  getCardLaneKey(card: Card, mode: SwimlaneMode): string {
+    switch (mode) {
+      case 'none':
+        return '';
+      case 'lanes':
+        return this.lanes.some(l => l.id === card.laneId) ? card.laneId! : '';
+      case 'label':
+        return card.labels.find(id => this.labels.some(l => l.id === id)) ?? '';
+      case 'assignee':
+        return card.assignees?.find(id => this.members.some(m => m.id === id)) ?? '';
+      case 'priority':
+        return card.priority ?? '';
+    }
+  }
+
+  /**
+   * Field changes that put a card (or a new card, when null) into a lane.
+   * The lane's label or assignee becomes the card's first; the '' lane clears them.
+   */
+  getLaneUpdates(card: Card | null, mode: SwimlaneMode, laneKey: string): Partial<Card> {
+    const currentKey = card ? this.getCardLaneKey(card, mode) : '';
+    const reorder = (ids: string[]) =>
+      laneKey ? [laneKey, ...ids.filter(id => id !== laneKey && id !== currentKey)] : [];
+
+    switch (mode) {
+      case 'none':
+        return {};
+      case 'lanes':
+        return { laneId: laneKey || undefined };
+      case 'label':
+        return { labels: reorder(card?.labels ?? []) };
+      case 'assignee':
+        return { assignees: reorder(card?.assignees ?? []) };
+      case 'priority':
+        return { priority: (laneKey || undefined) as Priority | undefined };
+    }
+  }
+
+  // ==================== SAVED VIEW OPERATIONS ====================
+
+  /**
+   * Get saved views, pinned ones first
+   */
+  getViews(): SavedView[] {
+    return [...this.views].sort((a, b) => Number(b.pinned) - Number(a.pinned));
+  }
+
+  /**
+   * Save a set of filters under a name
+   */
+  addView(name: string, filters: BoardFilters, pinned: boolean = true): SavedView {
+    const view: SavedView = { id: generateId('view'), name, filters: structuredClone(filters), pinned };
+    this.views.push(view);
+    return view;
+  }
+
+  /**
+   * Rename, pin/unpin or replace the filters of a view
+   */
+  updateView(id: string, updates: Partial<Omit<SavedView, 'id'>>): SavedView | null {
+    const index = this.views.findIndex(v => v.id === id);
+    if (index === -1) return null;
+
+    this.views[index] = { ...this.views[index], ...updates };
+    return this.views[index];
+  }
+
+  /**
+   * Delete a view
+   */
+  deleteView(id: string): boolean {
+    const initialLength = this.views.length;
+    this.views = this.views.filter(v => v.id !== id);
+    return this.views.length < initialLength;
+  }
+
+  // ==================== IMPORT ====================
+
+  /**
+   * Merge imported board data. Entities whose id already exists are skipped,
+   * overwritten, or added under new ids (with references rewritten), depending on the strategy.
+   * Imported columns, lanes and cards are placed after the existing ones. Activity events
+   * are added when their id is new, are not counted, and keep the newest ACTIVITY_LIMIT events.
+   */
+  importData(incoming: BoardData, strategy: ImportConflictStrategy): ImportResult {
+    const result: ImportResult = { added: 0, replaced: 0, skipped: 0 };
+    const data = structuredClone(incoming);
+    const idPrefixes = { columns: 'col', cards: 'card', labels: 'label', members: 'member', lanes: 'lane', views: 'view' };
+    const idMaps: Record<keyof typeof idPrefixes, Map<string, string>> = {
+      columns: new Map(), cards: new Map(), labels: new Map(), members: new Map(), lanes: new Map(), views: new Map(),
+    };
+
+    if (strategy === 'duplicate') {
+      const current = this.getAllData();
+      (Object.keys(idPrefixes) as (keyof typeof idPrefixes)[]).forEach(name => {
+        const existing = new Set((current[name] ?? []).map(item => item.id));
+        (data[name] ?? []).forEach(item => {
+          if (existing.has(item.id)) idMaps[name].set(item.id, generateId(idPrefixes[name]));
+        });
+      });
+    }
+
+    const remap = (name: keyof typeof idPrefixes, id: string) => idMaps[name].get(id) ?? id;
+
+    // Add or replace one entity; returns whether it was added (rather than replaced or skipped)
+    const merge = <T extends { id: string }>(items: T[], item: T, name: keyof typeof idPrefixes): boolean => {
+      const entity = { ...item, id: remap(name, item.id) };
+      const index = items.findIndex(existing => existing.id === entity.id);
+      if (index === -1) {
+        items.push(entity);
+        result.added++;
+        return true;
+      }
+      if (strategy === 'overwrite') {
+        items[index] = entity;
+        result.replaced++;
+      } else {
+        result.skipped++;
+      }
+      return false;
+    };
+
+    const columnOffset = this.columns.length;
+    data.columns.forEach(column => {
+      merge(this.columns, { ...column, order: column.order + columnOffset }, 'columns');
+    });
+    data.labels.forEach(label => merge(this.labels, label, 'labels'));
+    (data.members ?? []).forEach(member => merge(this.members, member, 'members'));
+    const laneOffset = this.lanes.length;
+    (data.lanes ?? []).forEach(lane => {
+      merge(this.lanes, { ...lane, order: lane.order + laneOffset }, 'lanes');
+    });
+
+    const cardOffset = this.cards.length;
+    data.cards.forEach(card => {
+      merge(this.cards, {
+        ...card,
+        columnId: remap('columns', card.columnId),
+        labels: card.labels.map(id => remap('labels', id)),
+        assignees: card.assignees?.map(id => remap('members', id)),
+        laneId: card.laneId && remap('lanes', card.laneId),
+        order: card.order + cardOffset,
+      }, 'cards');
+    });
+    this.searchIndex.rebuild(this.cards);
+
+    (data.views ?? []).forEach(view => {
+      merge(this.views, {
+        ...view,
+        filters: {
+          ...view.filters,
+          labels: view.filters.labels.map(id => remap('labels', id)),
+          assignee: remap('members', view.filters.assignee),
+        },
+      }, 'views');
+    });
+
+    // Events refer to any kind of entity, so their ids are looked up in every map
+    const remapEntity = (id: string) =>
+      Object.values(idMaps).find(map => map.has(id))?.get(id) ?? id;
+    const knownEvents = new Set(this.activity.map(event => event.id));
+    const events = (data.activity ?? [])
+      .filter(event => !knownEvents.has(event.id))
+      .map(event => ({
+        ...event,
+        entityId: event.entityId && remapEntity(event.entityId),
+        changes: event.changes.map(change => ({
+          ...change,
+          id: change.collection in idMaps ? remap(change.collection as keyof typeof idPrefixes, change.id) : change.id,
+        })),
+      }));
+    this.activity = [...this.activity, ...events]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-ACTIVITY_LIMIT);
+
+    // Renumber orders 0..n-1 now that imported and existing entities are mixed
+    this.getColumns().forEach((column, index) => {
+      column.order = index;
+      this.getCardsByColumn(column.id).forEach((card, cardIndex) => { card.order = cardIndex; });
+    });
+    this.getLanes().forEach((lane, index) => { lane.order = index; });
+
+    return result;
+  }
+
+  /**
+   * Columns and labels an external import would create, i.e. those with no match by name on this board
+   */
+  getMissingForImport(board: ExternalBoard): { columns: string[]; labels: string[] } {
+    return {
+      columns: board.columns
+        .map(c => c.title)
+        .filter(title => !this.findColumnByTitle(title)),
+      labels: board.labels
+        .map(l => l.name)
+        .filter(name => !this.findLabelByName(name)),
+    };
+  }
+
+  /**
+   * Add an external board's cards, creating the columns and labels it names that don't exist yet
+   */
+  importExternalBoard(board: ExternalBoard): ExternalImportResult {
+    const missing = this.getMissingForImport(board);
+
+    board.columns.forEach(column => {
+      if (!this.findColumnByTitle(column.title)) this.addColumn(column.title, column.color ?? IMPORTED_COLUMN_COLOR);
+    });
+    board.labels.forEach(label => {
+      if (!this.findLabelByName(label.name)) this.addLabel(label.name, label.color);
+    });
+
+    board.cards.forEach(card => {
+      this.addCard({
+        title: card.title,
+        description: card.description,
+        columnId: this.findColumnByTitle(card.columnTitle)!.id,
+        labels: card.labelNames.map(name => this.findLabelByName(name)!.id),
+        startDate: card.startDate,
+        dueDate: card.dueDate,
+        checklists: card.checklists,
+      });
+    });
+
+    return { cards: board.cards.length, columns: missing.columns.length, labels: missing.labels.length };
+  }
+
+  private findColumnByTitle(title: string): Column | undefined {
+    return this.columns.find(c => normalizeName(c.title) === normalizeName(title));
+  }
+
+  private findLabelByName(name: string): Label | undefined {
+    return this.labels.find(l => normalizeName(l.name) === normalizeName(name));
+  }
+
+  // ==================== ACTIVITY OPERATIONS ====================
+
+  /**
+   * Activity events, most recent first; with an entity ID, only the events that touched it
+   */
+  getActivity(entityId?: string): ActivityEvent[] {
+    const events = entityId
+      ? this.activity.filter(event =>
+        event.entityId === entityId || event.changes.some(change => change.id === entityId)
+      )
+      : this.activity;
+    return [...events].reverse();
+  }
+
+  /**
+   * Append an event, dropping the oldest ones beyond ACTIVITY_LIMIT
+   */
+  addActivity(event: ActivityEvent): void {
+    this.activity = [...this.activity, event].slice(-ACTIVITY_LIMIT);
+  }
+
+  // ==================== PERSISTENCE ====================
+
+  /**
+   * Get the ID of the board this model holds
+   */
+  getBoardId(): string {
+    return this.boardId;
+  }
+
+  /**
+   * Get the persistence adapter backing this model
+   */
+  getPersistenceAdapter(): PersistenceAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Sync to storage
+   */
+  async syncToStorage(): Promise<void> {
+    // Saving over a board that could not be read would replace the stored data
+    if (this.loadError) return;
+    try {
+      await this.adapter.save(this.boardId, this.getAllData());
+    } catch (error) {
+      console.error(`Error saving board ${this.boardId}:`, error);
+    }
+  }
+
+  /**
+   * Why the board could not be loaded, or null; such a board is empty and never saved
+   */
+  getLoadError(): string | null {
+    return this.loadError;
+  }
+
+  /**
+   * Load a board from storage, falling back to the default columns and labels for a new board.
+   * A board that fails to load comes back empty, with the error set and saving disabled.
+   */
+  static async loadFromStorage(
+    boardId: string = DEFAULT_BOARD_ID,
+    adapter: PersistenceAdapter = new LocalStorageAdapter()
+  ): Promise<KanbanModel> {
+    try {
+      const data = await adapter.load(boardId);
+      return new KanbanModel(data || undefined, boardId, adapter);
+    } catch (error) {
+      console.error(`Error loading board ${boardId}:`, error);
+      const model = new KanbanModel({ columns: [], cards: [], labels: [] }, boardId, adapter);
+      model.loadError = error instanceof Error ? error.message : String(error);
+      return model;
+    }
+  }
+}
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+/**
+ * Bounded undo/redo stacks of board diffs, persisted per board
+ */
+class CommandHistory {
+  private undoStack: HistoryEntry[];
+  private redoStack: HistoryEntry[];
+  private storageKey: string;
+  private limit: number;
+
+  constructor(storageKey: string, limit: number = HISTORY_LIMIT) {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.storageKey = storageKey;
+    this.limit = limit;
+  }
+
+  /**
+   * Restore stacks saved by a previous page load (client-side only)
+   */
+  load(): void {
+    const saved = StorageService.loadFromStorage<{ undo: HistoryEntry[]; redo: HistoryEntry[] } | null>(
+      this.storageKey,
+      null
+    );
+    // Entries saved before history kept diffs hold whole snapshots instead of ops
+    const isEntry = (entry: HistoryEntry) => Array.isArray(entry?.ops);
+    this.undoStack = saved?.undo.filter(isEntry).slice(-this.limit) ?? [];
+    this.redoStack = saved?.redo.filter(isEntry).slice(-this.limit) ?? [];
+  }
+
+  /**
+   * Record a new entry; a fresh change invalidates everything that could be redone
+   */
+  record(entry: HistoryEntry): void {
+    this.undoStack = [...this.undoStack, entry].slice(-this.limit);
+    this.redoStack = [];
+    this.persist();
+  }
+
+  /**
+   * Pop the latest entry and the board state it restores, pushing the way back so it can be redone
+   */
+  undo(current: BoardData): { entry: HistoryEntry; data: BoardData } | null {
+    return this.transfer(this.undoStack, this.redoStack, current);
+  }
+
+  /**
+   * Pop the latest undone entry and the board state it restores, pushing the way back so it can be undone again
+   */
+  redo(current: BoardData): { entry: HistoryEntry; data: BoardData } | null {
+    return this.transfer(this.redoStack, this.undoStack, current);
+  }
+
+  /**
+   * Move the latest entry of one stack to the other, keeping both within the limit
+   */
+  private transfer(
+    from: HistoryEntry[],
+    to: HistoryEntry[],
+    current: BoardData
+  ): { entry: HistoryEntry; data: BoardData } | null {
+    const entry = from.pop();
+    if (!entry) return null;
+    const data = applyBoardOps(current, entry.ops);
+    to.push({ ...entry, ops: diffBoardData(data, current), timestamp: Date.now() });
+    if (to.length > this.limit) to.splice(0, to.length - this.limit);
+    this.persist();
+    return { entry, data };
+  }
+
+  peekUndo(): HistoryEntry | null {
+    return this.undoStack[this.undoStack.length - 1] ?? null;
+  }
+
+  peekRedo(): HistoryEntry | null {
+    return this.redoStack[this.redoStack.length - 1] ?? null;
+  }
+
+  /**
+   * Save the stacks, leaving out the oldest entries until they fit in sessionStorage
+   */
+  private persist(): void {
+    let undo = this.undoStack;
+    let redo = this.redoStack;
+    while (!StorageService.saveToStorage(this.storageKey, { undo, redo }) && undo.length + redo.length > 0) {
+      if (undo.length > 0) undo = undo.slice(1);
+      else redo = redo.slice(1);
+    }
+  }
+}
+
+// ============================================================================
+// COLLABORATION
+// ============================================================================
+
+/**
+ * Operations that turn one board state into another, entity by entity
+ */
+function diffBoardData(before: BoardData, after: BoardData): BoardOp[] {
+  const ops: BoardOp[] = [];
+
+  BOARD_COLLECTIONS.forEach(collection => {
+    const previous = new Map<string, Record<string, unknown>>(
+      (before[collection] ?? []).map(item => [item.id, item as unknown as Record<string, unknown>])
+    );
+    const current = new Set<string>();
+
+    (after[collection] ?? []).forEach(item => {
+      const entity = item as unknown as Record<string, unknown>;
+      current.add(item.id);
+      const old = previous.get(item.id);
+      if (!old) {
+        ops.push({ type: 'put', collection, id: item.id, entity: structuredClone(item) });
+        return;
+      }
+
+      const changes: Record<string, unknown> = {};
+      new Set([...Object.keys(old), ...Object.keys(entity)]).forEach(key => {
+        if (JSON.stringify(old[key]) !== JSON.stringify(entity[key])) {
+          changes[key] = entity[key] === undefined ? null : structuredClone(entity[key]);
+        }
+      });
+      if (Object.keys(changes).length > 0) ops.push({ type: 'patch', collection, id: item.id, changes });
+    });
+
+    previous.forEach((_, id) => {
+      if (!current.has(id)) ops.push({ type: 'delete', collection, id });
+    });
+  });
+
+  return ops;
+}
+
+/**
+ * Apply operations in order (same rules as applyOps in server.js): put inserts or replaces,
+ * patch sets fields and is dropped if the entity is gone, delete removes
+ */
+function applyBoardOps(data: BoardData, ops: BoardOp[]): BoardData {
+  const next = structuredClone(data);
+
+  ops.forEach(op => {
+    const items = ((next[op.collection] ??= []) as unknown) as Record<string, unknown>[];
+    const index = items.findIndex(item => item.id === op.id);
+    if (op.type === 'put') {
+      if (index === -1) items.push(structuredClone(op.entity));
+      else items[index] = structuredClone(op.entity);
+    } else if (op.type === 'patch') {
+      if (index === -1) return;
+      Object.entries(op.changes).forEach(([key, value]) => {
+        if (key === 'id') return;
+        if (value === null) delete items[index][key];
+        else items[index][key] = structuredClone(value);
+      });
+    } else if (index !== -1) {
+      items.splice(index, 1);
+    }
+  });
+
+  return next;
+}
+
+/**
+ * WebSocket connection to a board's live room, reconnecting with backoff until closed
+ */
+class LiveSession {
+  private socket: WebSocket | null = null;
+  private user: Omit<PresenceUser, 'clientId'>;
+  private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private clientId: string | null = null;
+  private boardId: string;
+  private onMessage: (message: LiveServerMessage) => void;
+  private onDisconnect: () => void;
+
+  constructor(
+    boardId: string,
+    user: Omit<PresenceUser, 'clientId'>,
+    onMessage: (message: LiveServerMessage) => void,
+    onDisconnect: () => void
+  ) {
+    this.boardId = boardId;
+    this.user = user;
+    this.onMessage = onMessage;
+    this.onDisconnect = onDisconnect;
+  }
+
+  static isSupported(): boolean {
+    return isClient && typeof WebSocket !== 'undefined' && PERSISTENCE_MODE === 'api';
+  }
+
+  connect(): void {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const url = `${protocol}//${window.location.host}${BASE_URL}ws?board=${encodeURIComponent(this.boardId)}`;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.reconnectDelay = 1000;
+      socket.send(JSON.stringify({ type: 'hello', user: this.user }));
+    });
+    socket.addEventListener('message', event => {
+      try {
+        const message = JSON.parse(event.data) as LiveServerMessage;
+        if (message.type === 'welcome') this.clientId = message.clientId;
+        this.onMessage(message);
+      } catch (error) {
+        console.error('Invalid live message:', error);
+      }
+    });
+    socket.addEventListener('close', () => {
+      const wasConnected = this.clientId !== null;
+      this.socket = null;
+      this.clientId = null;
+      if (wasConnected) this.onDisconnect();
+      if (this.closed) return;
+      this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, LIVE_RECONNECT_MAX_DELAY);
+    });
+  }
+
+  /**
+   * Whether the server has welcomed this connection, so ops can be sent
+   */
+  isConnected(): boolean {
+    return this.clientId !== null && this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  getClientId(): string | null {
+    return this.clientId;
+  }
+
+  send(message: object): void {
+    if (this.isConnected()) this.socket!.send(JSON.stringify(message));
+  }
+
+  setUser(user: Omit<PresenceUser, 'clientId'>): void {
+    this.user = user;
+    this.send({ type: 'presence', user });
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+  }
+}
+
+// ============================================================================
+// ACTIVITY LOG
+// ============================================================================
+
+/**
+ * Field-level changes between two board states, for the activity log
+ */
+function getActivityChanges(before: BoardData, after: BoardData): ActivityChange[] {
+  const changes: ActivityChange[] = [];
+
+  diffBoardData(before, after)
+    .filter(op => op.collection !== 'activity')
+    .forEach(op => {
+      if (op.type === 'put') {
+        changes.push({ collection: op.collection, id: op.id, after: op.entity });
+      } else if (op.type === 'delete') {
+        const entity = (before[op.collection] ?? []).find(item => item.id === op.id);
+        changes.push({ collection: op.collection, id: op.id, before: entity });
+      } else {
+        const previous = (before[op.collection] ?? []).find(item => item.id === op.id) as
+          Record<string, unknown> | undefined;
+        Object.entries(op.changes)
+          .filter(([field]) => !ACTIVITY_IGNORED_FIELDS.includes(field))
+          .forEach(([field, value]) => {
+            changes.push({
+              collection: op.collection,
+              id: op.id,
+              field,
+              before: previous?.[field],
+              after: value ?? undefined,
+            });
+          });
+      }
+    });
+
+  return changes;
+}
+
+/**
+ * Board data without its activity log, as diffed for undo/redo
+ * (undoing a change must not erase the record of it)
+ */
+function withoutActivity(data: BoardData): BoardData {
+  const copy = { ...data };
+  delete copy.activity;
+  return copy;
+}
+
+/**
+ * Readable value of a changed field; IDs are shown by name when known
+ */
+function formatActivityValue(value: unknown, names: Map<string, string>): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') {
+    const text = names.get(value)
+      ?? PRIORITY_OPTIONS.find(option => option.value === value)?.label
+      ?? value;
+    return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    if (value.every(item => typeof item === 'string')) {
+      return value.map(item => formatActivityValue(item, names)).join(', ');
+    }
+    return `${value.length} ${value.length === 1 ? 'item' : 'itens'}`;
+  }
+  return String(value);
+}
+
+// ============================================================================
+// CONTROLLER LAYER
+// ============================================================================
+
+/**
+ * Kanban Controller - Manages state and coordinates between Model and View
+ */
+class KanbanController {
+  private model: KanbanModel;
+  private listeners: Set<() => void>;
+  private history: CommandHistory;
+  private live: LiveSession | null = null;
+  private confirmedData: BoardData | null = null; // Board as last broadcast by the live server
+  private pendingBatches: { batchId: string; ops: BoardOp[] }[] = []; // Sent, not yet broadcast back
+  private presence: PresenceUser[] = [];
+  private actor = ANONYMOUS_ACTOR;
+  private actorMemberId: string | null = null;
+
+  constructor(model: KanbanModel) {
+    this.model = model;
+    this.listeners = new Set();
+    this.history = new CommandHistory(StorageService.getHistoryKey(model.getBoardId()));
+  }
+
+  /**
+   * Subscribe to changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Reload the board through the model's persistence adapter
+   */
+  async reload(): Promise<void> {
+    this.model = await KanbanModel.loadFromStorage(
+      this.model.getBoardId(),
+      this.model.getPersistenceAdapter()
+    );
+    this.notifyListeners();
+  }
+
+  /**
+   * Why the board could not be loaded; changes are neither saved nor published meanwhile
+   */
+  getLoadError(): string | null {
+    return this.model.getLoadError();
+  }
+
+  /**
+   * Reload whenever another tab of this browser saves the board; returns a function
+   * that stops listening. A live session already delivers those changes.
+   */
+  startTabSync(): () => void {
+    return TabSync.subscribe(message => {
+      if (message.type !== 'board' || message.boardId !== this.model.getBoardId()) return;
+      if (this.live?.isConnected()) return;
+      this.reload();
+    });
+  }
+
+  /**
+   * Notify all listeners of changes
+   */
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Notify listeners and persist the board: as live ops while connected, otherwise through the adapter
+   */
+  private notify(before: BoardData): void {
+    this.notifyListeners();
+    if (this.model.getLoadError()) return;
+    if (this.live?.isConnected()) {
+      this.publish(before);
+    } else {
+      this.model.syncToStorage();
+    }
+  }
+
+  /**
+   * Deep copy of the board, safe from later in-place mutations
+   */
+  private snapshot(): BoardData {
+    return structuredClone(this.model.getAllData());
+  }
+
+  /**
+   * Run a mutation and record it in the history; mutations that report
+   * nothing changed (null or false) are not recorded
+   */
+  private execute(
+    action: HistoryAction,
+    description: string,
+    mutate: () => unknown,
+    entityId?: string
+  ): void {
+    const snapshot = this.snapshot();
+    const result = mutate();
+    if (result === null || result === false) return;
+
+    // A change that left the board as it was (like dropping a card where it was) is not an entry
+    const ops = diffBoardData(withoutActivity(this.model.getAllData()), withoutActivity(snapshot));
+    if (ops.length === 0) return;
+
+    this.history.record({ action, entityId, description, ops, timestamp: Date.now() });
+    this.logActivity(action, description, snapshot, entityId);
+    this.notify(snapshot);
+  }
+
+  /**
+   * Record what changed since `before` in the board's activity log
+   */
+  private logActivity(type: ActivityType, description: string, before: BoardData, entityId?: string): void {
+    const changes = getActivityChanges(before, this.model.getAllData());
+    this.model.addActivity({
+      id: generateId('activity'),
+      type,
+      entityId,
+      description,
+      changes: changes.slice(0, ACTIVITY_MAX_CHANGES),
+      timestamp: Date.now(),
+      actor: this.actor,
+    });
+  }
+
+  /**
+   * Who is credited with the following changes and comments
+   */
+  setActor(name: string, memberId: string | null = null): void {
+    this.actor = name;
+    this.actorMemberId = memberId;
+  }
+
+  /**
+   * Board-wide activity feed, most recent first
+   */
+  getActivity(): ActivityEvent[] {
+    return this.model.getActivity();
+  }
+
+  // ==================== LIVE COLLABORATION ====================
+
+  /**
+   * Join the board's live room; returns a function that leaves it
+   */
+  startLiveSession(user: Omit<PresenceUser, 'clientId'>): () => void {
+    if (!LiveSession.isSupported()) return () => {};
+
+    this.live = new LiveSession(
+      this.model.getBoardId(),
+      user,
+      message => this.handleLiveMessage(message),
+      () => this.handleLiveDisconnect()
+    );
+    this.live.connect();
+
+    return () => {
+      this.live?.close();
+      this.live = null;
+      this.presence = [];
+    };
+  }
+
+  setPresenceUser(user: Omit<PresenceUser, 'clientId'>): void {
+    this.live?.setUser(user);
+  }
+
+  /**
+   * Other people viewing this board
+   */
+  getPresence(): PresenceUser[] {
+    const clientId = this.live?.getClientId();
+    return this.presence.filter(user => user.clientId !== clientId);
+  }
+
+  /**
+   * Send the changes since `before` as one batch; it is applied locally already
+   * and confirmed when the server broadcasts it back
+   */
+  private publish(before: BoardData): void {
+    const ops = diffBoardData(before, this.model.getAllData());
+    if (ops.length === 0) return;
+
+    const batch = { batchId: generateId('batch'), ops };
+    this.pendingBatches.push(batch);
+    this.live!.send({ type: 'ops', ...batch });
+  }
+
+  /**
+   * Show the server's board with our unconfirmed batches replayed on top. The server
+   * applies batches in arrival order and ours arrive after what it has broadcast so far,
+   * so every client converges on the same state.
+   */
+  private rebase(): void {
+    if (!this.confirmedData) return;
+    const data = this.pendingBatches.reduce(
+      (current, batch) => applyBoardOps(current, batch.ops),
+      this.confirmedData
+    );
+    this.model.replaceData(data);
+    this.notifyListeners();
+  }
+
+  private handleLiveMessage(message: LiveServerMessage): void {
+    switch (message.type) {
+      case 'welcome':
+        this.confirmedData = message.data ?? this.snapshot();
+        this.pendingBatches = [];
+        this.rebase();
+        break;
+      case 'snapshot':
+        if (!message.data) return;
+        this.confirmedData = message.data;
+        this.rebase();
+        break;
+      case 'ops':
+        if (!this.confirmedData) return;
+        this.confirmedData = applyBoardOps(this.confirmedData, message.ops);
+        if (message.clientId === this.live?.getClientId()) {
+          this.pendingBatches = this.pendingBatches.filter(batch => batch.batchId !== message.batchId);
+        } else {
+          this.rebase();
+        }
+        break;
+      case 'presence':
+        this.presence = message.users;
+        this.notifyListeners();
+        break;
+      case 'deleted':
+        // Nothing left to send ops to or to reconnect to
+        this.pendingBatches = [];
+        this.confirmedData = null;
+        this.live?.close();
+        this.live = null;
+        this.presence = [];
+        this.notifyListeners();
+        break;
+      case 'error':
+        console.error('Live collaboration error:', message.message);
+        break;
+    }
+  }
+
+  /**
+   * Unconfirmed batches may never reach the server, so save the whole board instead
+   */
+  private handleLiveDisconnect(): void {
+    if (this.pendingBatches.length > 0) {
+      this.pendingBatches = [];
+      this.model.syncToStorage();
+    }
+    this.presence = [];
+    this.notifyListeners();
+  }
+
+  // ==================== HISTORY METHODS ====================
+
+  /**
+   * Restore history saved by a previous page load (client-side only)
+   */
+  loadHistory(): void {
+    this.history.load();
+    this.notifyListeners();
+  }
+
+  getUndoDescription(): string | null {
+    return this.history.peekUndo()?.description ?? null;
+  }
+
+  getRedoDescription(): string | null {
+    return this.history.peekRedo()?.description ?? null;
+  }
+
+  /**
+   * Activity events that touched a card, most recent first
+   */
+  getCardActivity(cardId: string): ActivityEvent[] {
+    return this.model.getActivity(cardId);
+  }
+
+  undo(): void {
+    const before = this.snapshot();
+    const undone = this.history.undo(withoutActivity(before));
+    if (!undone) return;
+    const { entry, data } = undone;
+    this.restore(data);
+    this.logActivity('history.undo', `Desfazer: ${entry.description}`, before, entry.entityId);
+    this.notify(before);
+  }
+
+  redo(): void {
+    const before = this.snapshot();
+    const redone = this.history.redo(withoutActivity(before));
+    if (!redone) return;
+    const { entry, data } = redone;
+    this.restore(data);
+    this.logActivity('history.redo', `Refazer: ${entry.description}`, before, entry.entityId);
+    this.notify(before);
+  }
+
+  /**
+   * Restore a board state from the history, keeping the activity log as it is now
+   */
+  private restore(data: BoardData): void {
+    this.model.replaceData({
+      ...data,
+      activity: this.model.getAllData().activity,
+    });
+  }
+
+  // ==================== COLUMN METHODS ====================
+
+  getColumns(): Column[] {
+    return this.model.getColumns();
+  }
+
+  private getColumnTitle(id: string): string {
+    return this.model.getColumns().find(c => c.id === id)?.title ?? '';
+  }
+
+  addColumn(title: string, color: string): void {
+    this.execute('column.add', `Adicionar coluna "${title}"`, () =>
+      this.model.addColumn(title, color)
+    );
+  }
+
+  updateColumn(id: string, updates: Partial<Column>): void {
+    this.execute('column.update', `Editar coluna "${this.getColumnTitle(id)}"`, () =>
+      this.model.updateColumn(id, updates),
+      id
+    );
+  }
+
+  deleteColumn(id: string): void {
+    this.execute('column.delete', `Excluir coluna "${this.getColumnTitle(id)}"`, () =>
+      this.model.deleteColumn(id),
+      id
+    );
+  }
+
+  reorderColumns(columnIds: string[]): void {
+    this.execute('column.reorder', 'Reordenar colunas', () =>
+      this.model.reorderColumns(columnIds)
+    );
+  }
+
+  // ==================== CARD METHODS ====================
+
+  getCard(id: string): Card | null {
+    return this.model.getCard(id);
+  }
+
+  getCardsByColumn(columnId: string): Card[] {
+    return this.model.getCardsByColumn(columnId);
+  }
+
+  getWipLimitViolation(columnId: string, cardId?: string): string | null {
+    return this.model.getWipLimitViolation(columnId, cardId);
+  }
+
+  private getCardTitle(id: string): string {
+    return this.model.getCard(id)?.title ?? '';
+  }
+
+  /**
+   * Add a card; returns why it was rejected when the column's hard WIP limit is full
+   */
+  addCard(card: Omit<Card, 'id' | 'createdAt' | 'order'>): string | null {
+    const violation = this.model.getWipLimitViolation(card.columnId);
+    if (violation) return violation;
+
+    this.execute('card.add', `Adicionar card "${card.title}"`, () =>
+      this.model.addCard(card)
+    );
+    return null;
+  }
+
+  updateCard(id: string, updates: Partial<Card>): void {
+    this.execute('card.update', `Editar card "${this.getCardTitle(id)}"`, () =>
+      this.model.updateCard(id, updates),
+      id
+    );
+  }
+
+  /**
+   * Apply the detail view's edits and column change in one undoable step;
+   * returns why it was rejected, like moveCard, before anything is changed
+   */
+  saveCard(id: string, updates: Partial<Card>, columnId: string): string | null {
+    const card = this.model.getCard(id);
+    if (!card) return null;
+    const isMove = columnId !== card.columnId;
+    if (isMove) {
+      const violation = this.model.getWipLimitViolation(columnId, id);
+      if (violation) return violation;
+    }
+    if (!isMove && Object.keys(updates).length === 0) return null;
+
+    this.execute(isMove ? 'card.move' : 'card.update', `Editar card "${card.title}"`, () => {
+      this.model.updateCard(id, updates);
+      return isMove
+        ? this.model.moveCard(id, columnId, this.model.getCardsByColumn(columnId).length)
+        : true;
+    }, id);
+    return null;
+  }
+
+  deleteCard(id: string): void {
+    this.execute('card.delete', `Excluir card "${this.getCardTitle(id)}"`, () =>
+      this.model.deleteCard(id),
+      id
+    );
+  }
+
+  /**
+   * Move a card; returns why it was rejected when the target column's hard WIP limit is full
+   */
+  moveCard(cardId: string, targetColumnId: string, targetOrder: number): string | null {
+    const violation = this.model.getWipLimitViolation(targetColumnId, cardId);
+    if (violation) return violation;
+
+    this.execute('card.move', `Mover card "${this.getCardTitle(cardId)}"`, () =>
+      this.model.moveCard(cardId, targetColumnId, targetOrder),
+      cardId
+    );
+    return null;
+  }
+
+  searchCards(query: ParsedSearchQuery, currentMemberId: string | null): Card[] {
+    return this.model.searchCards(query, currentMemberId);
+  }
+
+  filterCards(filters: BoardFilters, query: ParsedSearchQuery, currentMemberId: string | null): Card[] {
+    return this.model.filterCards(filters, query, currentMemberId);
+  }
+
+  getSearchErrors(query: ParsedSearchQuery): SearchQueryError[] {
+    return this.model.getSearchErrors(query);
+  }
+
+  // ==================== COMMENT METHODS ====================
+
+  /**
+   * Comment on a card as the current actor
+   */
+  addComment(cardId: string, body: string): void {
+    this.execute('comment.add', `Comentar em "${this.getCardTitle(cardId)}"`, () =>
+      this.model.addComment(cardId, body, this.actor, this.actorMemberId ?? undefined),
+      cardId
+    );
+  }
+
+  updateComment(cardId: string, commentId: string, body: string): void {
+    this.execute('comment.update', `Editar comentário em "${this.getCardTitle(cardId)}"`, () =>
+      this.model.updateComment(cardId, commentId, body),
+      cardId
+    );
+  }
+
+  deleteComment(cardId: string, commentId: string): void {
+    this.execute('comment.delete', `Excluir comentário em "${this.getCardTitle(cardId)}"`, () =>
+      this.model.deleteComment(cardId, commentId),
+      cardId
+    );
+  }
+
+  // ==================== LABEL METHODS ====================
+
+  getLabels(): Label[] {
+    return this.model.getLabels();
+  }
+
+  private getLabelName(id: string): string {
+    return this.model.getLabels().find(l => l.id === id)?.name ?? '';
+  }
+
+  addLabel(name: string, color: LabelColor): void {
+    this.execute('label.add', `Adicionar label "${name}"`, () =>
+      this.model.addLabel(name, color)
+    );
+  }
+
+  updateLabel(id: string, updates: Partial<Label>): void {
+    this.execute('label.update', `Editar label "${this.getLabelName(id)}"`, () =>
+      this.model.updateLabel(id, updates),
+      id
+    );
+  }
+
+  deleteLabel(id: string): void {
+    this.execute('label.delete', `Excluir label "${this.getLabelName(id)}"`, () =>
+      this.model.deleteLabel(id),
+      id
+    );
+  }
+
+  // ==================== LANE METHODS ====================
+
+  getLanes(): Lane[] {
+    return this.model.getLanes();
+  }
+
+  getSwimlanes(mode: SwimlaneMode): Swimlane[] {
+    return this.model.getSwimlanes(mode);
+  }
+
+  getCardLaneKey(card: Card, mode: SwimlaneMode): string {
+    return this.model.getCardLaneKey(card, mode);
+  }
+
+  private getLaneTitle(id: string): string {
+    return this.model.getLanes().find(l => l.id === id)?.title ?? '';
+  }
+
+  addLane(title: string): void {
+    this.execute('lane.add', `Adicionar raia "${title}"`, () =>
+      this.model.addLane(title)
+    );
+  }
+
+  updateLane(id: string, updates: Partial<Lane>): void {
+    this.execute('lane.update', `Editar raia "${this.getLaneTitle(id)}"`, () =>
+      this.model.updateLane(id, updates),
+      id
+    );
+  }
+
+  deleteLane(id: string): void {
+    this.execute('lane.delete', `Excluir raia "${this.getLaneTitle(id)}"`, () =>
+      this.model.deleteLane(id),
+      id
+    );
+  }
+
+  /**
+   * Add a card straight into a swimlane; returns why it was rejected, like addCard
+   */
+  addCardToLane(
+    card: Omit<Card, 'id' | 'createdAt' | 'order'>,
+    mode: SwimlaneMode,
+    laneKey: string
+  ): string | null {
+    return this.addCard({ ...card, ...this.model.getLaneUpdates(null, mode, laneKey) });
+  }
+
+  /**
+   * Move a card to a column and swimlane in one undoable step; returns why it was rejected, like moveCard
+   */
+  moveCardToLane(
+    cardId: string,
+    targetColumnId: string,
+    targetOrder: number,
+    mode: SwimlaneMode,
+    laneKey: string
+  ): string | null {
+    const violation = this.model.getWipLimitViolation(targetColumnId, cardId);
+    if (violation) return violation;
+
+    this.execute('card.move', `Mover card "${this.getCardTitle(cardId)}"`, () => {
+      const card = this.model.getCard(cardId);
+      if (!card) return null;
+      this.model.updateCard(cardId, this.model.getLaneUpdates(card, mode, laneKey));
+      return this.model.moveCard(cardId, targetColumnId, targetOrder);
+    }, cardId);
+    return null;
+  }
+
+  // ==================== SAVED VIEW METHODS ====================
+
+  getViews(): SavedView[] {
+    return this.model.getViews();
+  }
+
+  private getViewName(id: string): string {
+    return this.model.getViews().find(v => v.id === id)?.name ?? '';
+  }
+
+  addView(name: string, filters: BoardFilters): void {
+    this.execute('view.add', `Salvar visão "${name}"`, () =>
+      this.model.addView(name, filters)
+    );
+  }
+
+  updateView(id: string, updates: Partial<Omit<SavedView, 'id'>>): void {
+    this.execute('view.update', `Editar visão "${this.getViewName(id)}"`, () =>
+      this.model.updateView(id, updates),
+      id
+    );
+  }
+
+  deleteView(id: string): void {
+    this.execute('view.delete', `Excluir visão "${this.getViewName(id)}"`, () =>
+      this.model.deleteView(id),
+      id
+    );
+  }
+
+  // ==================== IMPORT METHODS ====================
+
+  getAllData(): BoardData {
+    return this.model.getAllData();
+  }
+
+  /**
+   * Merge an imported board into this one as a single undoable step
+   */
+  importData(data: BoardData, strategy: ImportConflictStrategy): ImportResult {
+    let result: ImportResult = { added: 0, replaced: 0, skipped: 0 };
+    this.execute('board.import', 'Importar dados', () => {
+      result = this.model.importData(data, strategy);
+      return result.added + result.replaced > 0 ? result : null;
+    });
+    return result;
+  }
+
+  getMissingForImport(board: ExternalBoard): { columns: string[]; labels: string[] } {
+    return this.model.getMissingForImport(board);
+  }
+
+  /**
+   * Add the cards of a Trello or CSV import as a single undoable step
+   */
+  importExternalBoard(board: ExternalBoard): ExternalImportResult {
+    let result: ExternalImportResult = { cards: 0, columns: 0, labels: 0 };
+    const source = board.source === 'trello' ? 'Trello' : 'CSV';
+    this.execute('board.import', `Importar do ${source}`, () => {
+      result = this.model.importExternalBoard(board);
+      return result.cards > 0 ? result : null;
+    });
+    return result;
+  }
+
+  // ==================== MEMBER METHODS ====================
+
+  getMembers(): Member[] {
+    return this.model.getMembers();
+  }
+
+  private getMemberName(id: string): string {
+    return this.model.getMembers().find(m => m.id === id)?.name ?? '';
+  }
+
+  addMember(name: string, color: LabelColor, initials?: string): void {
+    this.execute('member.add', `Adicionar membro "${name}"`, () =>
+      this.model.addMember(name, color, initials)
+    );
+  }
+
+  updateMember(id: string, updates: Partial<Member>): void {
+    this.execute('member.update', `Editar membro "${this.getMemberName(id)}"`, () =>
+      this.model.updateMember(id, updates),
+      id
+    );
+  }
+
+  deleteMember(id: string): void {
+    this.execute('member.delete', `Excluir membro "${this.getMemberName(id)}"`, () =>
+      this.model.deleteMember(id),
+      id
+    );
+  }
+}
+
+// ============================================================================
+// VIEW COMPONENTS
+// ============================================================================
+
+/**
+ * Anchor that navigates client-side while keeping a real href for SSR
+ */
+const Link: React.FC<{
+  route: Route;
+  onNavigate: (route: Route) => void;
+  className?: string;
+  children: React.ReactNode;
+}> = ({ route, onNavigate, className, children }) => {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    // Let the browser handle new-tab and new-window clicks
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    onNavigate(route);
+  };
+
+  return (
+    <a href={routeToPath(route)} onClick={handleClick} className={className}>
+      {children}
+    </a>
+  );
+};
+
+/**
+ * Header Component with board switcher and theme toggle
+ */
+const Header: React.FC<{
+  darkMode: boolean;
+  toggleTheme: () => void;
+  boards: Board[];
+  currentBoardId?: string;
+  onNavigate: (route: Route) => void;
+  onAddColumn?: () => void;
+  onImport?: () => void;
+  onExport?: (format: ExportFormat, filteredOnly: boolean) => void;
+  onShowActivity?: () => void;
+  hasActiveFilters?: boolean;
+  viewers?: PresenceUser[];
+  syncStatus?: SyncStatus | null;
+  history?: {
+    undoDescription: string | null;
+    redoDescription: string | null;
+    onUndo: () => void;
+    onRedo: () => void;
+  };
+}> = ({
+  darkMode,
+  toggleTheme,
+  boards,
+  currentBoardId,
+  onNavigate,
+  onAddColumn,
+  onImport,
+  onExport,
+  onShowActivity,
+  hasActiveFilters = false,
+  viewers = [],
+  syncStatus = null,
+  history
+}) => {
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exportFilteredOnly, setExportFilteredOnly] = useState(true);
+
+  const exportOptions: { format: ExportFormat; label: string }[] = [
+    { format: 'json', label: 'Backup completo (JSON)' },
+    { format: 'csv', label: 'Planilha de cards (CSV)' },
+    { format: 'markdown', label: 'Relatório (Markdown)' },
+  ];
+
+  return (
+    <header className="header">
+      <div className="header-content">
+        <Link route={{ name: 'boards' }} onNavigate={onNavigate} className="header-title">
+          <svg className="header-icon" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7m0 10a2 2 0 002 2h2a2 2 0 002-2V7a2 2 0 00-2-2h-2a2 2 0 00-2 2" />
+          </svg>
+          <h1>Kanban Board</h1>
+        </Link>
+        <div className="header-actions">
+          {boards.length > 0 && (
+            <select
+              className="board-switcher"
+              value={currentBoardId ?? ''}
+              onChange={e => {
+                if (e.target.value) onNavigate({ name: 'board', boardId: e.target.value });
+              }}
+              aria-label="Trocar de quadro"
+            >
+              {!currentBoardId && <option value="">Selecionar quadro</option>}
+              {boards.map(board => (
+                <option key={board.id} value={board.id}>
+                  {board.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {syncStatus && (
+            <span className={`sync-status sync-status-${syncStatus}`} role="status" title={SYNC_STATUS_TITLES[syncStatus]}>
+              <span className="sync-status-dot" />
+              {SYNC_STATUS_LABELS[syncStatus]}
+            </span>
+          )}
+          {viewers.length > 0 && (
+            <div className="presence" title={`Também vendo este quadro: ${viewers.map(v => v.name).join(', ')}`}>
+              <span className="presence-dot" />
+              <AvatarStack
+                members={viewers.map(v => ({ id: v.clientId, name: v.name, initials: v.initials, color: v.color }))}
+                label="Também vendo"
+              />
+            </div>
+          )}
+          {history && (
+            <div className="history-actions">
+              <button
+                onClick={history.onUndo}
+                disabled={!history.undoDescription}
+                className="btn-history"
+                aria-label="Desfazer"
+                title={history.undoDescription ? `Desfazer: ${history.undoDescription} (Ctrl+Z)` : 'Nada para desfazer'}
+              >
+                <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5" />
+                </svg>
+              </button>
+              <button
+                onClick={history.onRedo}
+                disabled={!history.redoDescription}
+                className="btn-history"
+                aria-label="Refazer"
+                title={history.redoDescription ? `Refazer: ${history.redoDescription} (Ctrl+Shift+Z)` : 'Nada para refazer'}
+              >
+                <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a5 5 0 00-5 5v2m15-7l-5-5m5 5l-5 5" />
+                </svg>
+              </button>
+            </div>
+          )}
+          {(onImport || onExport || onShowActivity) && (
+            <div className="history-actions">
+              {onShowActivity && (
+                <button onClick={onShowActivity} className="btn-history" aria-label="Atividade" title="Atividade do quadro">
+                  <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                </button>
+              )}
+              {onImport && (
+                <button onClick={onImport} className="btn-history" aria-label="Importar" title="Importar quadro (JSON)">
+                  <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                  </svg>
+                </button>
+              )}
+              {onExport && (
+                <div
+                  className="export-menu"
+                  onBlur={e => {
+                    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsExportMenuOpen(false);
+                  }}
+                >
+                  <button
+                    onClick={() => setIsExportMenuOpen(!isExportMenuOpen)}
+                    className="btn-history"
+                    aria-label="Exportar"
+                    aria-expanded={isExportMenuOpen}
+                    title="Exportar quadro"
+                  >
+                    <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                    </svg>
+                  </button>
+                  {isExportMenuOpen && (
+                    <div className="export-menu-list" role="menu">
+                      {exportOptions.map(option => (
+                        <button
+                          key={option.format}
+                          role="menuitem"
+                          onClick={() => {
+                            onExport(option.format, hasActiveFilters && exportFilteredOnly);
+                            setIsExportMenuOpen(false);
+                          }}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                      {hasActiveFilters && (
+                        <label className="export-menu-filter">
+                          <input
+                            type="checkbox"
+                            checked={exportFilteredOnly}
+                            onChange={e => setExportFilteredOnly(e.target.checked)}
+                          />
+                          Apenas cards filtrados (CSV e Markdown)
+                        </label>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {onAddColumn && (
+            <button onClick={onAddColumn} className="btn-add-column">
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              Nova Coluna
+            </button>
+          )}
+          <button onClick={toggleTheme} className="theme-toggle" aria-label="Toggle theme">
+            {darkMode ? (
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
+              </svg>
+            ) : (
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+              </svg>
+            )}
+          </button>
+        </div>
+      </div>
+    </header>
+  );
+};
+
+/**
+ * Search and Filter Bar Component
+ */
+const FilterBar: React.FC<{
+  searchTerm: string;
+  onSearchChange: (term: string) => void;
+  searchErrors: SearchQueryError[];
+  searchInputRef: React.RefObject<HTMLInputElement | null>;
+  selectedLabels: string[];
+  onLabelToggle: (labelId: string) => void;
+  labelMode: LabelMatchMode;
+  onLabelModeChange: (mode: LabelMatchMode) => void;
+  labels: Label[];
+  onManageLabels: () => void;
+  dueFilter: DueFilter;
+  onDueFilterChange: (filter: DueFilter) => void;
+  members: Member[];
+  assigneeFilter: AssigneeFilter;
+  onAssigneeFilterChange: (filter: AssigneeFilter) => void;
+  hasCurrentMember: boolean;
+  onManageMembers: () => void;
+  swimlaneMode: SwimlaneMode;
+  onSwimlaneModeChange: (mode: SwimlaneMode) => void;
+  views: SavedView[];
+  activeViewId: string | null;
+  canSaveView: boolean;
+  onApplyView: (view: SavedView) => void;
+  onSaveView: () => void;
+  onTogglePinView: (view: SavedView) => void;
+  onRenameView: (view: SavedView) => void;
+  onDeleteView: (view: SavedView) => void;
+  onCopyFilterLink: () => void;
+}> = ({
+  searchTerm,
+  onSearchChange,
+  searchErrors,
+  searchInputRef,
+  selectedLabels,
+  onLabelToggle,
+  labelMode,
+  onLabelModeChange,
+  labels,
+  onManageLabels,
+  dueFilter,
+  onDueFilterChange,
+  members,
+  assigneeFilter,
+  onAssigneeFilterChange,
+  hasCurrentMember,
+  onManageMembers,
+  swimlaneMode,
+  onSwimlaneModeChange,
+  views,
+  activeViewId,
+  canSaveView,
+  onApplyView,
+  onSaveView,
+  onTogglePinView,
+  onRenameView,
+  onDeleteView,
+  onCopyFilterLink
+}) => {
+  const [isViewsMenuOpen, setIsViewsMenuOpen] = useState(false);
+  const dueFilterOptions: { value: DueFilter; label: string }[] = [
+    { value: 'all', label: 'Todos os prazos' },
+    { value: 'overdue', label: 'Atrasados' },
+    { value: 'week', label: 'Vencem esta semana' },
+  ];
+
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  // Mirror of the query behind the input, with the invalid terms underlined
+  const renderSearchHighlight = () => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    searchErrors.forEach((error, index) => {
+      if (error.start < position) return;
+      parts.push(searchTerm.slice(position, error.start));
+      parts.push(
+        <span key={index} className="search-error">{searchTerm.slice(error.start, error.end)}</span>
+      );
+      position = error.end;
+    });
+    parts.push(searchTerm.slice(position));
+    return parts;
+  };
+
+  return (
+    <div className="filter-bar">
+      <div className={`search-box ${searchErrors.length > 0 ? 'has-errors' : ''}`}>
+        <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <input
+          ref={searchInputRef}
+          type="text"
+          aria-keyshortcuts="/"
+          placeholder='Buscar cards... (ex.: label:Bug column:"Em Progresso" due:<7d -assignee:ana)'
+          value={searchTerm}
+          onChange={e => onSearchChange(e.target.value)}
+          onScroll={e => {
+            if (highlightRef.current) highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+          }}
+          aria-invalid={searchErrors.length > 0}
+          aria-describedby={searchErrors.length > 0 ? 'search-errors' : undefined}
+        />
+        {searchErrors.length > 0 && (
+          <>
+            <div ref={highlightRef} className="search-highlight" aria-hidden="true">
+              {renderSearchHighlight()}
+            </div>
+            <ul id="search-errors" className="search-errors">
+              {searchErrors.map((error, index) => (
+                <li key={index}>{error.message}</li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+
+      <div className="saved-views">
+        {views.filter(view => view.pinned).map(view => (
+          <button
+            key={view.id}
+            onClick={() => onApplyView(view)}
+            className={`saved-view-chip ${view.id === activeViewId ? 'active' : ''}`}
+            aria-pressed={view.id === activeViewId}
+          >
+            {view.name}
+          </button>
+        ))}
+        <div
+          className="views-menu"
+          onBlur={e => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsViewsMenuOpen(false);
+          }}
+        >
+          <button
+            onClick={() => setIsViewsMenuOpen(!isViewsMenuOpen)}
+            className="manage-labels-btn"
+            aria-expanded={isViewsMenuOpen}
+          >
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+            </svg>
+            Visões
+          </button>
+          {isViewsMenuOpen && (
+            <div className="views-menu-list" role="menu">
+              {views.length === 0 && <p className="form-hint">Nenhuma visão salva.</p>}
+              {views.map(view => (
+                <div key={view.id} className={`views-menu-item ${view.id === activeViewId ? 'active' : ''}`}>
+                  <button
+                    role="menuitem"
+                    className="views-menu-name"
+                    onClick={() => {
+                      onApplyView(view);
+                      setIsViewsMenuOpen(false);
+                    }}
+                  >
+                    {view.name}
+                  </button>
+                  <button
+                    onClick={() => onTogglePinView(view)}
+                    className={`views-menu-action ${view.pinned ? 'pinned' : ''}`}
+                    aria-label={view.pinned ? `Desafixar "${view.name}"` : `Fixar "${view.name}"`}
+                    aria-pressed={view.pinned}
+                    title={view.pinned ? 'Desafixar da barra de filtros' : 'Fixar na barra de filtros'}
+                  >
+                    <svg fill={view.pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => onRenameView(view)}
+                    className="views-menu-action"
+                    aria-label={`Renomear "${view.name}"`}
+                    title="Renomear"
+                  >
+                    <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => onDeleteView(view)}
+                    className="views-menu-action"
+                    aria-label={`Excluir "${view.name}"`}
+                    title="Excluir"
+                  >
+                    <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+              <div className="views-menu-footer">
+                <button
+                  role="menuitem"
+                  onClick={() => {
+                    onSaveView();
+                    setIsViewsMenuOpen(false);
+                  }}
+                  disabled={!canSaveView}
+                  title={canSaveView ? undefined : 'Aplique algum filtro para salvá-lo como visão'}
+                >
+                  Salvar filtros atuais...
+                </button>
+                <button
+                  role="menuitem"
+                  onClick={() => {
+                    onCopyFilterLink();
+                    setIsViewsMenuOpen(false);
+                  }}
+                >
+                  Copiar link com os filtros
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="due-filters">
+        {dueFilterOptions.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onDueFilterChange(option.value)}
+            className={`due-filter ${dueFilter === option.value ? 'active' : ''}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="assignee-filters">
+        <select
+          value={assigneeFilter}
+          onChange={e => onAssigneeFilterChange(e.target.value)}
+          aria-label="Filtrar por responsável"
+        >
+          <option value="all">Todos os responsáveis</option>
+          <option value="me" disabled={!hasCurrentMember}>Atribuídos a mim</option>
+          <option value="unassigned">Sem responsável</option>
+          {members.map(member => (
+            <option key={member.id} value={member.id}>
+              {member.name}
+            </option>
+          ))}
+        </select>
+        <button onClick={onManageMembers} className="manage-labels-btn">
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+          </svg>
+          Membros
+        </button>
+        <select
+          value={swimlaneMode}
+          onChange={e => onSwimlaneModeChange(e.target.value as SwimlaneMode)}
+          aria-label="Raias"
+        >
+          {(Object.keys(SWIMLANE_MODE_LABELS) as SwimlaneMode[]).map(mode => (
+            <option key={mode} value={mode}>
+              {SWIMLANE_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="label-filters">
+        <button onClick={onManageLabels} className="manage-labels-btn">
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+          </svg>
+          Gerenciar Labels
+        </button>
+        <div className="label-modes" role="group" aria-label="Combinar labels selecionadas">
+          {(Object.keys(LABEL_MATCH_MODE_LABELS) as LabelMatchMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onLabelModeChange(mode)}
+              className={`due-filter ${labelMode === mode ? 'active' : ''}`}
+              aria-pressed={labelMode === mode}
+            >
+              {LABEL_MATCH_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onLabelToggle(NO_LABEL_FILTER)}
+          className={`label-filter no-label-filter ${selectedLabels.includes(NO_LABEL_FILTER) ? 'active' : ''}`}
+        >
+          Sem labels
+        </button>
+        {labels.map(label => (
+          <button
+            key={label.id}
+            onClick={() => onLabelToggle(label.id)}
+            className={`label-filter ${selectedLabels.includes(label.id) ? 'active' : ''}`}
+            style={{
+              backgroundColor: selectedLabels.includes(label.id)
+                ? LABEL_COLORS[label.color]
+                : 'transparent',
+              borderColor: LABEL_COLORS[label.color],
+              color: selectedLabels.includes(label.id) ? '#fff' : 'currentColor'
+            }}
+          >
+            {label.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Text with every occurrence of the search words and phrases wrapped in <mark>
+ */
+const HighlightedText: React.FC<{
+  text: string;
+  highlights: string[];
+}> = ({ text, highlights }) => {
+  if (highlights.length === 0) return <>{text}</>;
+
+  const escaped = highlights.map(h =>
+    [...normalizeName(h)]
+      .map(char => SEARCH_ACCENT_VARIANTS[char] ? `[${SEARCH_ACCENT_VARIANTS[char]}]` : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('')
+  );
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+  // split() with a capturing group puts the matches at odd indexes
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? <mark key={index} className="search-match">{part}</mark> : part
+      )}
+    </>
+  );
+};
+
+/**
+ * Card Component with inline title editing; click or Enter opens the detail view, "e" edits the title
+ */
+const CardComponent: React.FC<{
+  card: Card;
+  labels: Label[];
+  onUpdate: (updates: Partial<Card>) => void;
+  onDelete: () => void;
+  onOpen: () => void;
+  onDragStart: () => void;
+  members: Member[];
+  highlights?: string[];
+  onDragEnd: () => void;
+}> = ({ card, labels, members, highlights = [], onUpdate, onDelete, onOpen, onDragStart, onDragEnd }) => {
+  const [isEditingTitle, setIsEditingTitle] = useState(false);
+  const [editTitle, setEditTitle] = useState(card.title);
+
+  const cardRef = useRef<HTMLDivElement>(null);
+  const titleInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isEditingTitle && titleInputRef.current) {
+      titleInputRef.current.focus();
+      titleInputRef.current.select();
+    }
+  }, [isEditingTitle]);
+
+  const handleTitleSave = () => {
+    if (editTitle.trim() && editTitle !== card.title) {
+      onUpdate({ title: editTitle.trim() });
+    } else {
+      setEditTitle(card.title);
+    }
+    setIsEditingTitle(false);
+  };
+
+  // Arrow keys and the other board shortcuts are handled by the board
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onOpen();
+    } else if (e.key.toLowerCase() === 'e') {
+      e.preventDefault();
+      setIsEditingTitle(true);
+    }
+  };
+
+  const cardLabels = labels.filter(l => card.labels.includes(l.id));
+  const checklistProgress = getChecklistProgress(card.checklists);
+  const commentCount = card.comments?.length ?? 0;
+  const assignees = members.filter(m => card.assignees?.includes(m.id));
+  const priority = PRIORITY_OPTIONS.find(option => option.value === card.priority);
+
+  return (
+    <div
+      ref={cardRef}
+      className="card"
+      data-card-id={card.id}
+      tabIndex={0}
+      draggable
+      onClick={onOpen}
+      onKeyDown={handleKeyDown}
+      onDragStart={e => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', card.id);
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+    >
+      <div className="card-header">
+        {isEditingTitle ? (
+          <input
+            ref={titleInputRef}
+            type="text"
+            value={editTitle}
+            onChange={e => setEditTitle(e.target.value)}
+            onClick={e => e.stopPropagation()}
+            onBlur={handleTitleSave}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                handleTitleSave();
+                cardRef.current?.focus();
+              }
+              if (e.key === 'Escape') {
+                setEditTitle(card.title);
+                setIsEditingTitle(false);
+                cardRef.current?.focus();
+              }
+            }}
+            className="card-title-input"
+          />
+        ) : (
+          <h4
+            onClick={e => {
+              e.stopPropagation();
+              setIsEditingTitle(true);
+            }}
+            className="card-title"
+          >
+            <HighlightedText text={card.title} highlights={highlights} />
+          </h4>
+        )}
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            onDelete();
+          }}
+          className="card-delete"
+          aria-label="Excluir card"
+        >
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {cardLabels.length > 0 && (
+        <div className="card-labels">
+          {cardLabels.map(label => (
+            <span
+              key={label.id}
+              className="card-label"
+              style={{ backgroundColor: LABEL_COLORS[label.color] }}
+            >
+              {label.name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {card.description && (
+        <p className="card-description">
+          <HighlightedText text={card.description} highlights={highlights} />
+        </p>
+      )}
+
+      {(card.startDate || card.dueDate || checklistProgress.total > 0 || commentCount > 0 || assignees.length > 0 || priority) && (
+        <div className="card-footer">
+          {priority && (
+            <span className="priority-badge" style={{ color: priority.color, borderColor: priority.color }}>
+              {priority.label}
+            </span>
+          )}
+          {(card.startDate || card.dueDate) && (
+            <DateBadge startDate={card.startDate} dueDate={card.dueDate} />
+          )}
+          {checklistProgress.total > 0 && (
+            <span
+              className={`checklist-badge ${checklistProgress.done === checklistProgress.total ? 'complete' : ''}`}
+              title="Itens concluídos"
+            >
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+              {checklistProgress.done}/{checklistProgress.total}
+            </span>
+          )}
+          {commentCount > 0 && (
+            <span className="comment-badge" title={`${commentCount} ${commentCount === 1 ? 'comentário' : 'comentários'}`}>
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+              </svg>
+              {commentCount}
+            </span>
+          )}
+          {assignees.length > 0 && <AvatarStack members={assignees} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Round avatar with a member's initials
+ */
+const Avatar: React.FC<{
+  member: Member;
+}> = ({ member }) => (
+  <span
+    className="avatar"
+    style={{ backgroundColor: LABEL_COLORS[member.color] }}
+    title={member.name}
+  >
+    {member.initials}
+  </span>
+);
+
+/**
+ * Overlapping avatars, collapsing the rest into a "+N" counter
+ */
+const AvatarStack: React.FC<{
+  members: Member[];
+  max?: number;
+  label?: string;
+}> = ({ members, max = 3, label = 'Responsáveis' }) => {
+  const hidden = members.slice(max);
+
+  return (
+    <span className="avatar-stack" aria-label={`${label}: ${members.map(m => m.name).join(', ')}`}>
+      {members.slice(0, max).map(member => (
+        <Avatar key={member.id} member={member} />
+      ))}
+      {hidden.length > 0 && (
+        <span className="avatar avatar-more" title={hidden.map(m => m.name).join(', ')}>
+          +{hidden.length}
+        </span>
+      )}
+    </span>
+  );
+};
+
+/**
+ * Start/due date badge, color-coded by how close the due date is
+ */
+const DateBadge: React.FC<{
+  startDate?: string;
+  dueDate?: string;
+}> = ({ startDate, dueDate }) => {
+  const status = dueDate ? getDueStatus(dueDate) : null;
+  const range = startDate && dueDate
+    ? `${formatDateKey(startDate)} → ${formatDateKey(dueDate)}`
+    : dueDate
+      ? formatDateKey(dueDate)
+      : `Início ${formatDateKey(startDate!)}`;
+
+  // "Today" differs between server and browser time zones, so the status may change on hydration
+  return (
+    <span
+      className={`date-badge ${status ? `date-badge-${status}` : ''}`}
+      title={status ? DUE_STATUS_LABELS[status] : 'Data de início'}
+      suppressHydrationWarning
+    >
+      <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+      </svg>
+      {range}
+    </span>
+  );
+};
+
+/**
+ * Swimlane title bar; user-defined lanes can be renamed inline and deleted
+ */
+const SwimlaneHeader: React.FC<{
+  lane: Swimlane;
+  cardCount: number;
+  onRename: (title: string) => void;
+  onDelete: () => void;
+}> = ({ lane, cardCount, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editTitle, setEditTitle] = useState(lane.title);
+
+  const handleSave = () => {
+    if (editTitle.trim() && editTitle !== lane.title) {
+      onRename(editTitle.trim());
+    } else {
+      setEditTitle(lane.title);
+    }
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="swimlane-header">
+      {lane.color && <span className="swimlane-color" style={{ backgroundColor: lane.color }} />}
+      {isEditing ? (
+        <input
+          type="text"
+          value={editTitle}
+          onChange={e => setEditTitle(e.target.value)}
+          onBlur={handleSave}
+          onKeyDown={e => {
+            if (e.key === 'Enter') handleSave();
+            if (e.key === 'Escape') {
+              setEditTitle(lane.title);
+              setIsEditing(false);
+            }
+          }}
+          className="swimlane-title-input"
+          autoFocus
+        />
+      ) : (
+        <h3
+          className={`swimlane-title ${lane.editable ? 'editable' : ''}`}
+          onClick={() => lane.editable && setIsEditing(true)}
+        >
+          {lane.title}
+        </h3>
+      )}
+      <span className="card-count">{cardCount}</span>
+      {lane.editable && (
+        <button onClick={onDelete} className="btn-delete-label" aria-label="Excluir raia">
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Column Component with drag and drop
+ */
+const ColumnComponent: React.FC<{
+  column: Column;
+  cards: Card[];
+  totalCards: number;
+  labels: Label[];
+  members: Member[];
+  highlights: string[];
+  onAddCard: () => void;
+  onEditWipLimit: () => void;
+  onUpdateCard: (cardId: string, updates: Partial<Card>) => void;
+  onDeleteCard: (cardId: string) => void;
+  onUpdateColumn: (updates: Partial<Column>) => void;
+  onDeleteColumn: () => void;
+  onOpenCard: (cardId: string) => void;
+  onCardDragStart: (card: Card) => void;
+  onCardDragEnd: () => void;
+  onCardDragOver: (dropIndex: number) => void;
+  onCardDragLeave: () => void;
+  onCardDrop: (dropIndex: number) => void;
+  isDraggingOver: boolean;
+  isDropBlocked: boolean;
+  dropIndex: number | null;
+  onColumnDragStart: () => void;
+  onColumnDragEnd: () => void;
+  onColumnDragOver: (position: 'before' | 'after') => void;
+  onColumnDrop: () => void;
+  onMoveColumn: (offset: number) => void;
+  isColumnDragging: boolean;
+}> = ({
+  column,
+  cards,
+  totalCards,
+  labels,
+  members,
+  highlights,
+  onAddCard,
+  onEditWipLimit,
+  onUpdateCard,
+  onDeleteCard,
+  onUpdateColumn,
+  onDeleteColumn,
+  onOpenCard,
+  onCardDragStart,
+  onCardDragEnd,
+  onCardDragOver,
+  onCardDragLeave,
+  onCardDrop,
+  isDraggingOver,
+  isDropBlocked,
+  dropIndex,
+  onColumnDragStart,
+  onColumnDragEnd,
+  onColumnDragOver,
+  onColumnDrop,
+  onMoveColumn,
+  isColumnDragging
+}) => {
+    const [isEditingTitle, setIsEditingTitle] = useState(false);
+    const [editTitle, setEditTitle] = useState(column.title);
+    const titleInputRef = useRef<HTMLInputElement>(null);
+    const cardsContainerRef = useRef<HTMLDivElement>(null);
+    const dragHandleRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+      if (isEditingTitle && titleInputRef.current) {
+        titleInputRef.current.focus();
+        titleInputRef.current.select();
+      }
+    }, [isEditingTitle]);
+
+    const handleTitleSave = () => {
+      if (editTitle.trim() && editTitle !== column.title) {
+        onUpdateColumn({ title: editTitle.trim() });
+      } else {
+        setEditTitle(column.title);
+      }
+      setIsEditingTitle(false);
+    };
+
+    /**
+     * Insertion index for the pointer: before the first card whose middle is below it
+     */
+    const getDropIndex = (clientY: number): number => {
+      const cardElements = Array.from(
+        cardsContainerRef.current?.querySelectorAll<HTMLElement>('[data-card-id]') ?? []
+      );
+      const index = cardElements.findIndex(element => {
+        const rect = element.getBoundingClientRect();
+        return clientY < rect.top + rect.height / 2;
+      });
+      return index === -1 ? cardElements.length : index;
+    };
+
+    const isColumnDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(COLUMN_DRAG_TYPE);
+
+    // Counted against all cards in the column, not just the filtered ones on screen
+    const wipStatus = column.wipLimit
+      ? totalCards > column.wipLimit ? 'exceeded' : totalCards === column.wipLimit ? 'reached' : null
+      : null;
+
+    const handleDragOver = (e: React.DragEvent) => {
+      e.preventDefault();
+      if (isColumnDrag(e)) {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onColumnDragOver(e.clientX < rect.left + rect.width / 2 ? 'before' : 'after');
+        return;
+      }
+      const index = getDropIndex(e.clientY);
+      if (index !== dropIndex) onCardDragOver(index);
+    };
+
+    const handleDragLeave = (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+        onCardDragLeave();
+      }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+      e.preventDefault();
+      if (isColumnDrag(e)) {
+        onColumnDrop();
+      } else {
+        onCardDrop(getDropIndex(e.clientY));
+      }
+    };
+
+    const handleHeaderDragStart = (e: React.DragEvent) => {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData(COLUMN_DRAG_TYPE, column.id);
+      onColumnDragStart();
+    };
+
+    // Keyboard alternative to dragging: arrows on the handle move the column
+    const handleDragHandleKeyDown = (e: React.KeyboardEvent) => {
+      const offsets: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1 };
+      if (!(e.key in offsets)) return;
+      e.preventDefault();
+      onMoveColumn(offsets[e.key]);
+      requestAnimationFrame(() => dragHandleRef.current?.focus());
+    };
+
+    return (
+      <div
+        className={`column ${isDraggingOver ? (isDropBlocked ? 'drop-blocked' : 'drag-over') : ''} ${isColumnDragging ? 'dragging' : ''} ${wipStatus ? `wip-${wipStatus}` : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        <div
+          className="column-header"
+          style={{ borderTopColor: column.color }}
+          draggable={!isEditingTitle}
+          onDragStart={handleHeaderDragStart}
+          onDragEnd={onColumnDragEnd}
+        >
+          <button
+            ref={dragHandleRef}
+            className="column-drag-handle"
+            onKeyDown={handleDragHandleKeyDown}
+            aria-label={`Mover coluna ${column.title} (setas esquerda/direita)`}
+            title="Arraste ou use as setas para mover a coluna"
+          >
+            <svg fill="currentColor" viewBox="0 0 24 24">
+              <circle cx="9" cy="6" r="1.5" />
+              <circle cx="15" cy="6" r="1.5" />
+              <circle cx="9" cy="12" r="1.5" />
+              <circle cx="15" cy="12" r="1.5" />
+              <circle cx="9" cy="18" r="1.5" />
+              <circle cx="15" cy="18" r="1.5" />
+            </svg>
+          </button>
+          {isEditingTitle ? (
+            <input
+              ref={titleInputRef}
+              type="text"
+              value={editTitle}
+              onChange={e => setEditTitle(e.target.value)}
+              onBlur={handleTitleSave}
+              onKeyDown={e => {
+                if (e.key === 'Enter') handleTitleSave();
+                if (e.key === 'Escape') {
+                  setEditTitle(column.title);
+                  setIsEditingTitle(false);
+                }
+              }}
+              className="column-title-input"
+            />
+          ) : (
+            <h3 onClick={() => setIsEditingTitle(true)} className="column-title">
+              {column.title}
+              {column.wipLimit ? (
+                <span
+                  className={`card-count wip-count ${wipStatus ? `wip-count-${wipStatus}` : ''}`}
+                  title={`Limite WIP: ${column.wipLimit} (${column.wipMode === 'block' ? 'bloqueia' : 'apenas alerta'})`}
+                >
+                  {totalCards}/{column.wipLimit}
+                </span>
+              ) : (
+                <span className="card-count">{cards.length}</span>
+              )}
+            </h3>
+          )}
+          <div className="column-actions">
+            <button onClick={onEditWipLimit} className="btn-wip-limit" aria-label="Limite WIP" title="Limite WIP">
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+              </svg>
+            </button>
+            <button onClick={onAddCard} className="btn-add-card" aria-label="Adicionar card">
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+            </button>
+            <button onClick={onDeleteColumn} className="btn-delete-column" aria-label="Excluir coluna">
+              <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="cards-container" ref={cardsContainerRef}>
+          {cards.map((card, index) => (
+            <React.Fragment key={card.id}>
+              {dropIndex === index && <div className="drop-indicator" />}
+              <CardComponent
+                card={card}
+                labels={labels}
+                members={members}
+                highlights={highlights}
+                onUpdate={updates => onUpdateCard(card.id, updates)}
+                onDelete={() => onDeleteCard(card.id)}
+                onOpen={() => onOpenCard(card.id)}
+                onDragStart={() => onCardDragStart(card)}
+                onDragEnd={onCardDragEnd}
+              />
+            </React.Fragment>
+          ))}
+          {dropIndex === cards.length && <div className="drop-indicator" />}
+          {cards.length === 0 && (
+            <div className="empty-column">
+              <p>Arraste cards aqui ou clique no + para adicionar</p>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+/**
+ * Modal for adding new card
+ */
+const AddCardModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onAdd: (title: string, description: string) => void;
+}> = ({ isOpen, onClose, onAdd }) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (title.trim()) {
+      onAdd(title.trim(), description.trim());
+      setTitle('');
+      setDescription('');
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Novo Card</h2>
+          <button onClick={onClose} className="modal-close">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label>Título *</label>
+            <input
+              type="text"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              placeholder="Digite o título do card"
+              required
+              autoFocus
+            />
+          </div>
+          <div className="form-group">
+            <label>Descrição</label>
+            <textarea
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder="Digite a descrição (opcional)"
+              rows={4}
+            />
+          </div>
+          <div className="modal-actions">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancelar
+            </button>
+            <button type="submit" className="btn-primary">
+              Adicionar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Editor for a card's named checklists and their ordered items
+ */
+const ChecklistEditor: React.FC<{
+  checklists: Checklist[];
+  onChange: (checklists: Checklist[]) => void;
+}> = ({ checklists, onChange }) => {
+  const [newChecklistTitle, setNewChecklistTitle] = useState('');
+  const [newItemTexts, setNewItemTexts] = useState<Record<string, string>>({});
+
+  const updateChecklist = (checklistId: string, update: (checklist: Checklist) => Checklist) => {
+    onChange(checklists.map(c => (c.id === checklistId ? update(c) : c)));
+  };
+
+  const handleAddChecklist = () => {
+    if (!newChecklistTitle.trim()) return;
+    onChange([...checklists, { id: generateId('checklist'), title: newChecklistTitle.trim(), items: [] }]);
+    setNewChecklistTitle('');
+  };
+
+  const handleAddItem = (checklistId: string) => {
+    const text = newItemTexts[checklistId]?.trim();
+    if (!text) return;
+    updateChecklist(checklistId, c => ({
+      ...c,
+      items: [...c.items, { id: generateId('item'), text, done: false }],
+    }));
+    setNewItemTexts(prev => ({ ...prev, [checklistId]: '' }));
+  };
+
+  // Enter inside the card form should add, not submit the whole form
+  const onEnter = (action: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  return (
+    <div className="checklists">
+      {checklists.map(checklist => {
+        const progress = getChecklistProgress([checklist]);
+        const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+        return (
+          <div key={checklist.id} className="checklist">
+            <div className="checklist-header">
+              <input
+                type="text"
+                value={checklist.title}
+                onChange={e => updateChecklist(checklist.id, c => ({ ...c, title: e.target.value }))}
+                onKeyDown={onEnter(() => undefined)}
+                className="checklist-title-input"
+                aria-label="Nome do checklist"
+              />
+              <span className="checklist-progress-text">{progress.done}/{progress.total}</span>
+              <button
+                type="button"
+                onClick={() => onChange(checklists.filter(c => c.id !== checklist.id))}
+                className="btn-delete-label"
+                aria-label="Excluir checklist"
+              >
+                <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+            <div className="checklist-progress">
+              <div className="checklist-progress-bar" style={{ width: `${percent}%` }} />
+            </div>
+
+            <ul className="checklist-items">
+              {checklist.items.map(item => (
+                <li key={item.id} className={`checklist-item ${item.done ? 'done' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={item.done}
+                    onChange={() => updateChecklist(checklist.id, c => ({
+                      ...c,
+                      items: c.items.map(i => (i.id === item.id ? { ...i, done: !i.done } : i)),
+                    }))}
+                    aria-label={`Concluir "${item.text}"`}
+                  />
+                  <input
+                    type="text"
+                    value={item.text}
+                    onChange={e => updateChecklist(checklist.id, c => ({
+                      ...c,
+                      items: c.items.map(i => (i.id === item.id ? { ...i, text: e.target.value } : i)),
+                    }))}
+                    onKeyDown={onEnter(() => undefined)}
+                    className="checklist-item-input"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateChecklist(checklist.id, c => ({
+                      ...c,
+                      items: c.items.filter(i => i.id !== item.id),
+                    }))}
+                    className="card-delete"
+                    aria-label="Excluir item"
+                  >
+                    <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            <div className="checklist-add">
+              <input
+                type="text"
+                value={newItemTexts[checklist.id] ?? ''}
+                onChange={e => setNewItemTexts(prev => ({ ...prev, [checklist.id]: e.target.value }))}
+                onKeyDown={onEnter(() => handleAddItem(checklist.id))}
+                placeholder="Novo item"
+              />
+              <button type="button" onClick={() => handleAddItem(checklist.id)} className="btn-secondary">
+                Adicionar
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="checklist-add">
+        <input
+          type="text"
+          value={newChecklistTitle}
+          onChange={e => setNewChecklistTitle(e.target.value)}
+          onKeyDown={onEnter(handleAddChecklist)}
+          placeholder="Nome do novo checklist"
+        />
+        <button type="button" onClick={handleAddChecklist} className="btn-secondary">
+          Novo checklist
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Comment thread of a card; changes apply right away, independently of the card form
+ */
+const CommentThread: React.FC<{
+  comments: Comment[];
+  members: Member[];
+  onAdd: (body: string) => void;
+  onUpdate: (commentId: string, body: string) => void;
+  onDelete: (commentId: string) => void;
+}> = ({ comments, members, onAdd, onUpdate, onDelete }) => {
+  const [newBody, setNewBody] = useState('');
+  const [editing, setEditing] = useState<{ id: string; body: string } | null>(null);
+
+  const handleAdd = () => {
+    if (!newBody.trim()) return;
+    onAdd(newBody.trim());
+    setNewBody('');
+  };
+
+  const handleSaveEdit = () => {
+    if (!editing || !editing.body.trim()) return;
+    onUpdate(editing.id, editing.body.trim());
+    setEditing(null);
+  };
+
+  // Ctrl+Enter sends; plain Enter keeps adding lines instead of submitting the card form
+  const onCtrlEnter = (action: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  const getAuthor = (comment: Comment): Member =>
+    members.find(m => m.id === comment.authorId) ?? {
+      id: comment.authorId ?? comment.author,
+      name: comment.author,
+      initials: getInitials(comment.author),
+      color: 'gray',
+    };
+
+  return (
+    <div className="comments">
+      {comments.length === 0 && <p className="form-hint">Nenhum comentário ainda.</p>}
+      <ul className="comment-list">
+        {comments.map(comment => {
+          const author = getAuthor(comment);
+          const isEditing = editing?.id === comment.id;
+
+          return (
+            <li key={comment.id} className="comment">
+              <Avatar member={author} />
+              <div className="comment-content">
+                <div className="comment-meta">
+                  <strong>{author.name}</strong>
+                  <time>{formatDateTime(comment.createdAt)}</time>
+                  {comment.updatedAt && <span title={formatDateTime(comment.updatedAt)}>(editado)</span>}
+                </div>
+                {isEditing ? (
+                  <>
+                    <textarea
+                      value={editing.body}
+                      onChange={e => setEditing({ id: comment.id, body: e.target.value })}
+                      onKeyDown={onCtrlEnter(handleSaveEdit)}
+                      rows={3}
+                      autoFocus
+                      aria-label="Editar comentário"
+                    />
+                    <div className="comment-actions">
+                      <button type="button" onClick={() => setEditing(null)} className="btn-secondary">
+                        Cancelar
+                      </button>
+                      <button type="button" onClick={handleSaveEdit} className="btn-primary" disabled={!editing.body.trim()}>
+                        Salvar
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <p className="comment-body">{comment.body}</p>
+                    <div className="comment-actions">
+                      <button type="button" onClick={() => setEditing({ id: comment.id, body: comment.body })} className="comment-action">
+                        Editar
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (confirm('Deseja realmente excluir este comentário?')) onDelete(comment.id);
+                        }}
+                        className="comment-action"
+                      >
+                        Excluir
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="comment-add">
+        <textarea
+          value={newBody}
+          onChange={e => setNewBody(e.target.value)}
+          onKeyDown={onCtrlEnter(handleAdd)}
+          placeholder="Escreva um comentário... (Ctrl+Enter para enviar)"
+          rows={2}
+          aria-label="Novo comentário"
+        />
+        <button type="button" onClick={handleAdd} className="btn-secondary" disabled={!newBody.trim()}>
+          Comentar
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * One activity event: what was done, by whom and when, with its field changes folded away
+ */
+const ActivityEventItem: React.FC<{
+  event: ActivityEvent;
+  names: Map<string, string>;
+}> = ({ event, names }) => {
+  const getEntityName = (change: ActivityChange) => {
+    const entity = (change.after ?? change.before) as { title?: string; name?: string } | undefined;
+    return entity?.title ?? entity?.name ?? names.get(change.id) ?? change.id;
+  };
+
+  const describeChange = (change: ActivityChange) => {
+    const label = ACTIVITY_COLLECTION_LABELS[change.collection];
+    if (!change.field) {
+      return `${change.after ? 'Criou' : 'Excluiu'} ${label} "${getEntityName(change)}"`;
+    }
+    const field = ACTIVITY_FIELD_LABELS[change.field] ?? change.field;
+    return `${field} (${label} "${getEntityName(change)}"): ${formatActivityValue(change.before, names)} → ${formatActivityValue(change.after, names)}`;
+  };
+
+  return (
+    <li className="activity-item">
+      <div className="activity-item-header">
+        <span>
+          <strong>{event.actor}</strong> · {event.description}
+        </span>
+        <time>{formatDateTime(event.timestamp)}</time>
+      </div>
+      {event.changes.length > 0 && (
+        <details className="activity-changes">
+          <summary>
+            {event.changes.length} {event.changes.length === 1 ? 'alteração' : 'alterações'}
+          </summary>
+          <ul>
+            {event.changes.map((change, index) => (
+              <li key={`${change.id}_${change.field ?? ''}_${index}`}>{describeChange(change)}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Board-wide activity feed, most recent first, optionally narrowed to one person
+ */
+const ActivityFeedModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  activity: ActivityEvent[];
+  names: Map<string, string>;
+}> = ({ isOpen, onClose, activity, names }) => {
+  const [actor, setActor] = useState('all');
+
+  if (!isOpen) return null;
+
+  const actors = [...new Set(activity.map(event => event.actor))].sort();
+  const events = actor === 'all' ? activity : activity.filter(event => event.actor === actor);
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal modal-large" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Atividade do Quadro</h2>
+          <button onClick={onClose} className="modal-close">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <div className="activity-feed">
+          {actors.length > 1 && (
+            <select
+              value={actor}
+              onChange={e => setActor(e.target.value)}
+              className="due-filter"
+              aria-label="Filtrar atividade por pessoa"
+            >
+              <option value="all">Todas as pessoas</option>
+              {actors.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+          {events.length === 0 ? (
+            <p className="form-hint">Nenhuma atividade registrada ainda.</p>
+          ) : (
+            <ul className="activity-list">
+              {events.map(event => (
+                <ActivityEventItem key={event.id} event={event} names={names} />
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Overlay listing the keyboard shortcuts
+ */
+const ShortcutHelpModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+}> = ({ isOpen, onClose }) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()} role="dialog" aria-label="Atalhos de teclado">
+        <div className="modal-header">
+          <h2>Atalhos de Teclado</h2>
+          <button onClick={onClose} className="modal-close" aria-label="Fechar">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <dl className="shortcut-list">
+          {KEYBOARD_SHORTCUTS.map(shortcut => (
+            <div key={shortcut.description} className="shortcut-item">
+              <dt>
+                {shortcut.keys.map(key => <kbd key={key}>{key}</kbd>)}
+              </dt>
+              <dd>{shortcut.description}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Card detail view - edits every card field and shows its metadata and activity
+ */
+const CardDetailModal: React.FC<{
+  card: Card | null;
+  columns: Column[];
+  labels: Label[];
+  members: Member[];
+  activity: ActivityEvent[];
+  activityNames: Map<string, string>;
+  onClose: () => void;
+  onSave: (updates: Partial<Card>, columnId: string) => boolean;
+  onDelete: () => void;
+  onAddComment: (body: string) => void;
+  onUpdateComment: (commentId: string, body: string) => void;
+  onDeleteComment: (commentId: string) => void;
+}> = ({
+  card,
+  columns,
+  labels,
+  members,
+  activity,
+  activityNames,
+  onClose,
+  onSave,
+  onDelete,
+  onAddComment,
+  onUpdateComment,
+  onDeleteComment
+}) => {
+  const [title, setTitle] = useState(card?.title ?? '');
+  const [description, setDescription] = useState(card?.description ?? '');
+  const [selectedLabels, setSelectedLabels] = useState<string[]>(card?.labels ?? []);
+  const [columnId, setColumnId] = useState(card?.columnId ?? '');
+  const [startDate, setStartDate] = useState(card?.startDate ?? '');
+  const [dueDate, setDueDate] = useState(card?.dueDate ?? '');
+  const [checklists, setChecklists] = useState<Checklist[]>(card?.checklists ?? []);
+  const [assignees, setAssignees] = useState<string[]>(card?.assignees ?? []);
+  const [priority, setPriority] = useState<Priority | ''>(card?.priority ?? '');
+  // The card as the form was filled from; saving sends only fields changed since then,
+  // so changes made elsewhere while the modal is open are kept
+  const [openedCard] = useState(card);
+
+  if (!card) return null;
+
+  const hasInvalidDates = Boolean(startDate && dueDate && startDate > dueDate);
+
+  const toggleLabel = (labelId: string) => {
+    setSelectedLabels(prev =>
+      prev.includes(labelId)
+        ? prev.filter(id => id !== labelId)
+        : [...prev, labelId]
+    );
+  };
+
+  const toggleAssignee = (memberId: string) => {
+    setAssignees(prev =>
+      prev.includes(memberId)
+        ? prev.filter(id => id !== memberId)
+        : [...prev, memberId]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || hasInvalidDates) return;
+
+    const opened = openedCard ?? card;
+    const updates: Partial<Card> = {};
+    if (title.trim() !== opened.title) updates.title = title.trim();
+    if (description !== opened.description) updates.description = description;
+    if (selectedLabels.join() !== opened.labels.join()) updates.labels = selectedLabels;
+    if (startDate !== (opened.startDate ?? '')) updates.startDate = startDate || undefined;
+    if (dueDate !== (opened.dueDate ?? '')) updates.dueDate = dueDate || undefined;
+    if (assignees.join() !== (opened.assignees ?? []).join()) updates.assignees = assignees;
+    if (priority !== (opened.priority ?? '')) updates.priority = priority || undefined;
+
+    // Drop blank items and untitled empty checklists before saving
+    const cleanedChecklists = checklists
+      .map(c => ({ ...c, title: c.title.trim(), items: c.items.filter(i => i.text.trim()) }))
+      .filter(c => c.title || c.items.length > 0);
+    if (JSON.stringify(cleanedChecklists) !== JSON.stringify(opened.checklists ?? [])) {
+      updates.checklists = cleanedChecklists;
+    }
+
+    if (onSave(updates, columnId !== opened.columnId ? columnId : card.columnId)) onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal modal-large card-detail" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Detalhes do Card</h2>
+          <button onClick={onClose} className="modal-close">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label>Título *</label>
+            <input
+              type="text"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              placeholder="Digite o título do card"
+              required
+              autoFocus
+            />
+          </div>
+          <div className="form-group">
+            <label>Descrição</label>
+            <textarea
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder="Digite a descrição (opcional)"
+              rows={6}
+            />
+          </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Data de início</label>
+              <input
+                type="date"
+                value={startDate}
+                max={dueDate || undefined}
+                onChange={e => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="form-group">
+              <label>Data de entrega</label>
+              <input
+                type="date"
+                value={dueDate}
+                min={startDate || undefined}
+                onChange={e => setDueDate(e.target.value)}
+              />
+            </div>
+          </div>
+          {hasInvalidDates && (
+            <p className="form-error">A data de início deve ser anterior à data de entrega.</p>
+          )}
+          <div className="form-row">
+            <div className="form-group">
+              <label>Coluna</label>
+              <select value={columnId} onChange={e => setColumnId(e.target.value)}>
+                {columns.map(column => (
+                  <option key={column.id} value={column.id}>
+                    {column.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label>Prioridade</label>
+              <select value={priority} onChange={e => setPriority(e.target.value as Priority | '')}>
+                <option value="">Sem prioridade</option>
+                {PRIORITY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Labels</label>
+            <div className="label-selector">
+              {labels.map(label => (
+                <button
+                  key={label.id}
+                  type="button"
+                  onClick={() => toggleLabel(label.id)}
+                  className={`label-option ${selectedLabels.includes(label.id) ? 'selected' : ''}`}
+                  style={{
+                    backgroundColor: LABEL_COLORS[label.color],
+                    opacity: selectedLabels.includes(label.id) ? 1 : 0.6
+                  }}
+                >
+                  {label.name}
+                  {selectedLabels.includes(label.id) && (
+                    <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="form-group">
+            <label>Responsáveis</label>
+            {members.length === 0 ? (
+              <p className="form-hint">Nenhum membro no quadro. Adicione em "Membros".</p>
+            ) : (
+              <div className="assignee-selector">
+                {members.map(member => (
+                  <button
+                    key={member.id}
+                    type="button"
+                    onClick={() => toggleAssignee(member.id)}
+                    className={`assignee-option ${assignees.includes(member.id) ? 'selected' : ''}`}
+                    aria-pressed={assignees.includes(member.id)}
+                  >
+                    <Avatar member={member} />
+                    {member.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="card-detail-section">
+            <h3>Checklists</h3>
+            <ChecklistEditor checklists={checklists} onChange={setChecklists} />
+          </div>
+
+          <div className="card-detail-section">
+            <h3>Comentários{card.comments?.length ? ` (${card.comments.length})` : ''}</h3>
+            <CommentThread
+              comments={card.comments ?? []}
+              members={members}
+              onAdd={onAddComment}
+              onUpdate={onUpdateComment}
+              onDelete={onDeleteComment}
+            />
+          </div>
+
+          <div className="card-detail-section">
+            <h3>Atividade</h3>
+            <ul className="activity-list">
+              {activity.map(event => (
+                <ActivityEventItem key={event.id} event={event} names={activityNames} />
+              ))}
+              {!activity.some(event => event.type === 'card.add') && (
+                <li className="activity-item">
+                  <div className="activity-item-header">
+                    <span>Card criado</span>
+                    <time>{formatDateTime(card.createdAt)}</time>
+                  </div>
+                </li>
+              )}
+            </ul>
+          </div>
+
+          <div className="modal-actions">
+            <button type="button" onClick={onDelete} className="btn-danger">
+              Excluir
+            </button>
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancelar
+            </button>
+            <button type="submit" className="btn-primary">
+              Salvar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Modal for adding new column
+ */
+const AddColumnModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onAdd: (title: string, color: string) => void;
+}> = ({ isOpen, onClose, onAdd }) => {
+  const [title, setTitle] = useState('');
+  const [color, setColor] = useState('#3b82f6');
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (title.trim()) {
+      onAdd(title.trim(), color);
+      setTitle('');
+      setColor('#3b82f6');
+      onClose();
+    }
+  };
+
+  const colorPresets = [
+    '#ef4444', '#f97316', '#f59e0b', '#84cc16',
+    '#10b981', '#14b8a6', '#3b82f6', '#6366f1',
+    '#8b5cf6', '#d946ef', '#ec4899', '#64748b'
+  ];
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Nova Coluna</h2>
+          <button onClick={onClose} className="modal-close">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label>Título *</label>
+            <input
+              type="text"
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              placeholder="Digite o título da coluna"
+              required
+              autoFocus
+            />
+          </div>
+          <div className="form-group">
+            <label>Cor da Coluna</label>
+            <div className="color-picker">
+              {colorPresets.map(presetColor => (
+                <button
+                  key={presetColor}
+                  type="button"
+                  className={`color-option ${color === presetColor ? 'selected' : ''}`}
+                  style={{ backgroundColor: presetColor }}
+                  onClick={() => setColor(presetColor)}
+                />
+              ))}
+            </div>
+          </div>
+          <div className="modal-actions">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancelar
+            </button>
+            <button type="submit" className="btn-primary">
+              Adicionar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Modal for setting a column's WIP limit and how strictly it is enforced
+ */
+const WipLimitModal: React.FC<{
+  column: Column | null;
+  onClose: () => void;
+  onSave: (updates: Pick<Column, 'wipLimit' | 'wipMode'>) => void;
+}> = ({ column, onClose, onSave }) => {
+  const [limit, setLimit] = useState(column?.wipLimit ? String(column.wipLimit) : '');
+  const [mode, setMode] = useState<WipMode>(column?.wipMode ?? 'warn');
+
+  if (!column) return null;
+
+  const parsedLimit = Number(limit);
+  const isInvalid = limit !== '' && (!Number.isInteger(parsedLimit) || parsedLimit < 1);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isInvalid) return;
+    onSave(limit === ''
+      ? { wipLimit: undefined, wipMode: undefined }
+      : { wipLimit: parsedLimit, wipMode: mode });
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Limite WIP - {column.title}</h2>
+          <button onClick={onClose} className="modal-close">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label>Máximo de cards</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={limit}
+              onChange={e => setLimit(e.target.value)}
+              placeholder="Sem limite"
+              autoFocus
+            />
+          </div>
+          {isInvalid && (
+            <p className="form-error">O limite deve ser um número inteiro maior que zero.</p>
+          )}
+          <div className="form-group">
+            <label>Ao atingir o limite</label>
+            <select
+              value={mode}
+              onChange={e => setMode(e.target.value as WipMode)}
+              disabled={limit === ''}
+            >
+              <option value="warn">Apenas alertar</option>
+              <option value="block">Bloquear novos cards</option>
+            </select>
+          </div>
+          <div className="modal-actions">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancelar
+            </button>
+            <button type="submit" className="btn-primary">
+              Salvar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Modal for managing labels
+ */
+const ManageLabelsModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  labels: Label[];
+  onAddLabel: (name: string, color: LabelColor) => void;
+  onUpdateLabel: (id: string, name: string) => void;
+  onDeleteLabel: (id: string) => void;
+}> = ({ isOpen, onClose, labels, onAddLabel, onUpdateLabel, onDeleteLabel }) => {
+  const [newLabelName, setNewLabelName] = useState('');
+  const [newLabelColor, setNewLabelColor] = useState<LabelColor>('blue');
+  const [editingLabelId, setEditingLabelId] = useState<string | null>(null);
+  const [editingLabelName, setEditingLabelName] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleAddLabel = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newLabelName.trim()) {
+      onAddLabel(newLabelName.trim(), newLabelColor);
+      setNewLabelName('');
+      setNewLabelColor('blue');
+    }
+  };
+
+  const handleUpdateLabel = (id: string) => {
+    if (editingLabelName.trim()) {
+      onUpdateLabel(id, editingLabelName.trim());
+      setEditingLabelId(null);
+      setEditingLabelName('');
+    }
+  };
+
+  const startEditing = (label: Label) => {
+    setEditingLabelId(label.id);
+    setEditingLabelName(label.name);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal modal-large" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Gerenciar Labels</h2>
+          <button onClick={onClose} className="modal-close">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="labels-list">
+          {labels.map(label => (
+            <div key={label.id} className="label-item">
+              <span
+                className="label-color-badge"
+                style={{ backgroundColor: LABEL_COLORS[label.color] }}
+              />
+              {editingLabelId === label.id ? (
+                <input
+                  type="text"
+                  value={editingLabelName}
+                  onChange={e => setEditingLabelName(e.target.value)}
+                  onBlur={() => handleUpdateLabel(label.id)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') handleUpdateLabel(label.id);
+                    if (e.key === 'Escape') {
+                      setEditingLabelId(null);
+                      setEditingLabelName('');
+                    }
+                  }}
+                  className="label-edit-input"
+                  autoFocus
+                />
+              ) : (
+                <span className="label-name" onClick={() => startEditing(label)}>
+                  {label.name}
+                </span>
+              )}
+              <button
+                onClick={() => onDeleteLabel(label.id)}
+                className="btn-delete-label"
+                aria-label="Excluir label"
+              >
+                <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAddLabel} className="add-label-form">
+          <h3>Adicionar Nova Label</h3>
+          <div className="form-row">
+            <div className="form-group">
+              <label>Nome</label>
+              <input
+                type="text"
+                value={newLabelName}
+                onChange={e => setNewLabelName(e.target.value)}
+                placeholder="Nome da label"
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label>Cor</label>
+              <select
+                value={newLabelColor}
+                onChange={e => setNewLabelColor(e.target.value as LabelColor)}
+              >
+                {Object.keys(LABEL_COLORS).map(color => (
+                  <option key={color} value={color}>
+                    {color.charAt(0).toUpperCase() + color.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button type="submit" className="btn-primary">
+              Adicionar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Modal for managing the board's member roster and who "me" is
+ */
+const ManageMembersModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  members: Member[];
+  currentMemberId: string | null;
+  onAddMember: (name: string, color: LabelColor, initials: string) => void;
+  onUpdateMember: (id: string, updates: Partial<Member>) => void;
+  onDeleteMember: (id: string) => void;
+  onSetCurrentMember: (id: string | null) => void;
+}> = ({
+  isOpen,
+  onClose,
+  members,
+  currentMemberId,
+  onAddMember,
+  onUpdateMember,
+  onDeleteMember,
+  onSetCurrentMember
+}) => {
+  const [newMemberName, setNewMemberName] = useState('');
+  const [newMemberInitials, setNewMemberInitials] = useState('');
+  const [newMemberColor, setNewMemberColor] = useState<LabelColor>('blue');
+  const [editingMemberId, setEditingMemberId] = useState<string | null>(null);
+  const [editingMemberName, setEditingMemberName] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newMemberName.trim()) {
+      const initials = newMemberInitials.trim().toUpperCase() || getInitials(newMemberName);
+      onAddMember(newMemberName.trim(), newMemberColor, initials);
+      setNewMemberName('');
+      setNewMemberInitials('');
+      setNewMemberColor('blue');
+    }
+  };
+
+  const handleUpdateMember = (id: string) => {
+    if (editingMemberName.trim()) {
+      onUpdateMember(id, { name: editingMemberName.trim() });
+      setEditingMemberId(null);
+      setEditingMemberName('');
+    }
+  };
+
+  const startEditing = (member: Member) => {
+    setEditingMemberId(member.id);
+    setEditingMemberName(member.name);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal modal-large" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Gerenciar Membros</h2>
+          <button onClick={onClose} className="modal-close">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="labels-list">
+          {members.length === 0 && (
+            <p className="form-hint">Nenhum membro ainda. Adicione o primeiro abaixo.</p>
+          )}
+          {members.map(member => (
+            <div key={member.id} className="label-item">
+              <Avatar member={member} />
+              {editingMemberId === member.id ? (
+                <input
+                  type="text"
+                  value={editingMemberName}
+                  onChange={e => setEditingMemberName(e.target.value)}
+                  onBlur={() => handleUpdateMember(member.id)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') handleUpdateMember(member.id);
+                    if (e.key === 'Escape') {
+                      setEditingMemberId(null);
+                      setEditingMemberName('');
+                    }
+                  }}
+                  className="label-edit-input"
+                  autoFocus
+                />
+              ) : (
+                <span className="label-name" onClick={() => startEditing(member)}>
+                  {member.name}
+                </span>
+              )}
+              <button
+                onClick={() => onSetCurrentMember(currentMemberId === member.id ? null : member.id)}
+                className={`btn-current-member ${currentMemberId === member.id ? 'active' : ''}`}
+                aria-pressed={currentMemberId === member.id}
+                title="Marque quem é você para usar o filtro Atribuídos a mim"
+              >
+                Sou eu
+              </button>
+              <button
+                onClick={() => onDeleteMember(member.id)}
+                className="btn-delete-label"
+                aria-label="Excluir membro"
+              >
+                <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAddMember} className="add-label-form">
+          <h3>Adicionar Novo Membro</h3>
+          <div className="form-row member-form-row">
+            <div className="form-group">
+              <label>Nome</label>
+              <input
+                type="text"
+                value={newMemberName}
+                onChange={e => setNewMemberName(e.target.value)}
+                placeholder="Nome do membro"
+                required
+              />
+            </div>
+            <div className="form-group">
+              <label>Iniciais</label>
+              <input
+                type="text"
+                value={newMemberInitials}
+                onChange={e => setNewMemberInitials(e.target.value)}
+                placeholder={newMemberName.trim() ? getInitials(newMemberName) : 'AB'}
+                maxLength={3}
+              />
+            </div>
+            <div className="form-group">
+              <label>Cor</label>
+              <select
+                value={newMemberColor}
+                onChange={e => setNewMemberColor(e.target.value as LabelColor)}
+              >
+                {Object.keys(LABEL_COLORS).map(color => (
+                  <option key={color} value={color}>
+                    {color.charAt(0).toUpperCase() + color.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button type="submit" className="btn-primary">
+              Adicionar
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Modal for importing a board: a Kanban export (as a new board or merged into the current one),
+ * or a Trello/CSV file previewed and then added to the current board
+ */
+const ImportBoardModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  currentData: BoardData | null; // null when there is no board to merge into
+  onImportAsNew: (file: BoardExport) => void;
+  onMerge?: (data: BoardData, strategy: ImportConflictStrategy) => ImportResult;
+  getMissingForImport?: (board: ExternalBoard) => { columns: string[]; labels: string[] };
+  onImportExternal?: (board: ExternalBoard) => ExternalImportResult;
+}> = ({ isOpen, onClose, currentData, onImportAsNew, onMerge, getMissingForImport, onImportExternal }) => {
+  const [format, setFormat] = useState<'kanban' | 'trello' | 'csv'>('kanban');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<BoardExportParseResult | null>(null);
+  const [externalParsed, setExternalParsed] = useState<ExternalBoardParseResult | null>(null);
+  const [target, setTarget] = useState<'new' | 'merge'>('new');
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('skip');
+  const [resultLines, setResultLines] = useState<string[] | null>(null);
+
+  if (!isOpen) return null;
+
+  const canImportExternal = Boolean(currentData && getMissingForImport && onImportExternal);
+  const errors = format === 'kanban'
+    ? (parsed && !parsed.ok ? parsed.errors : null)
+    : (externalParsed && !externalParsed.ok ? externalParsed.errors : null);
+  const isReady = format === 'kanban' ? Boolean(parsed?.ok) : Boolean(externalParsed?.ok);
+
+  const resetFile = () => {
+    setFileName('');
+    setParsed(null);
+    setExternalParsed(null);
+  };
+
+  const handleClose = () => {
+    resetFile();
+    setFormat('kanban');
+    setTarget('new');
+    setStrategy('skip');
+    setResultLines(null);
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setResultLines(null);
+    try {
+      const text = await file.text();
+      if (format === 'kanban') {
+        setParsed(parseBoardExport(text));
+      } else {
+        setExternalParsed(format === 'trello' ? parseTrelloBoard(text) : parseCsvBoard(text));
+      }
+    } catch (error) {
+      const failure = { ok: false as const, errors: [`Não foi possível ler o arquivo: ${(error as Error).message}`] };
+      if (format === 'kanban') setParsed(failure); else setExternalParsed(failure);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (format !== 'kanban') {
+      if (!externalParsed?.ok || !onImportExternal) return;
+      const result = onImportExternal(externalParsed.board);
+      setResultLines([
+        `${result.cards} cards importados`,
+        `${result.columns} colunas criadas`,
+        `${result.labels} labels criadas`,
+      ]);
+      return;
+    }
+
+    if (!parsed?.ok) return;
+    if (target === 'merge' && onMerge) {
+      const result = onMerge(parsed.file.data, strategy);
+      setResultLines([
+        `${result.added} itens adicionados`,
+        `${result.replaced} itens substituídos`,
+        `${result.skipped} itens mantidos`,
+      ]);
+    } else {
+      onImportAsNew(parsed.file);
+      handleClose();
+    }
+  };
+
+  const conflicts = parsed?.ok && currentData ? countImportConflicts(currentData, parsed.file.data) : 0;
+  const externalBoard = externalParsed?.ok ? externalParsed.board : null;
+  const missing = externalBoard && getMissingForImport ? getMissingForImport(externalBoard) : null;
+
+  return (
+    <div className="modal-overlay" onClick={handleClose}>
+      <div className="modal modal-large" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Importar Quadro</h2>
+          <button onClick={handleClose} className="modal-close">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        {resultLines ? (
+          <div className="import-result">
+            <p>Importação concluída.</p>
+            <ul>
+              {resultLines.map(line => (
+                <li key={line}>{line}</li>
+              ))}
+            </ul>
+            <div className="modal-actions">
+              <button onClick={handleClose} className="btn-primary">
+                Fechar
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            {canImportExternal && (
+              <div className="form-group">
+                <label>Formato</label>
+                <select
+                  value={format}
+                  onChange={e => {
+                    setFormat(e.target.value as 'kanban' | 'trello' | 'csv');
+                    resetFile();
+                  }}
+                >
+                  <option value="kanban">Exportação deste Kanban (JSON)</option>
+                  <option value="trello">Trello (JSON)</option>
+                  <option value="csv">Planilha (CSV)</option>
+                </select>
+              </div>
+            )}
+            <div className="form-group">
+              <label>Arquivo</label>
+              <input
+                key={format}
+                type="file"
+                accept={format === 'csv' ? '.csv,text/csv' : '.json,application/json'}
+                onChange={handleFileChange}
+              />
+              {format === 'csv' && (
+                <p className="form-hint">
+                  Colunas reconhecidas: título, descrição, coluna e labels (separadas por vírgula).
+                </p>
+              )}
+            </div>
+
+            {errors && (
+              <div className="import-errors" role="alert">
+                <p>
+                  Não foi possível importar "{fileName}" ({errors.length}{' '}
+                  {errors.length === 1 ? 'problema' : 'problemas'}):
+                </p>
+                <ul>
+                  {errors.map((error, index) => (
+                    <li key={index}>{error}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {format === 'kanban' && parsed?.ok && (
+              <>
+                <p className="import-summary">
+                  "{parsed.file.board.name}": {parsed.file.data.columns.length} colunas,{' '}
+                  {parsed.file.data.cards.length} cards, {parsed.file.data.labels.length} labels.
+                </p>
+                {currentData && onMerge && (
+                  <div className="form-group">
+                    <label>Destino</label>
+                    <select value={target} onChange={e => setTarget(e.target.value as 'new' | 'merge')}>
+                      <option value="new">Criar um novo quadro</option>
+                      <option value="merge">Mesclar neste quadro</option>
+                    </select>
+                  </div>
+                )}
+                {target === 'merge' && conflicts > 0 && (
+                  <div className="form-group">
+                    <label>{conflicts} {conflicts === 1 ? 'item já existe' : 'itens já existem'} neste quadro</label>
+                    <select value={strategy} onChange={e => setStrategy(e.target.value as ImportConflictStrategy)}>
+                      {(Object.keys(IMPORT_CONFLICT_LABELS) as ImportConflictStrategy[]).map(option => (
+                        <option key={option} value={option}>
+                          {IMPORT_CONFLICT_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </>
+            )}
+
+            {externalBoard && missing && (
+              <div className="import-preview">
+                <p className="import-summary">
+                  {externalBoard.cards.length} cards serão adicionados a este quadro.
+                  {missing.columns.length > 0 && ` Novas colunas: ${missing.columns.join(', ')}.`}
+                  {missing.labels.length > 0 && ` Novas labels: ${missing.labels.join(', ')}.`}
+                </p>
+                <table className="import-preview-table">
+                  <thead>
+                    <tr>
+                      <th>Título</th>
+                      <th>Coluna</th>
+                      <th>Labels</th>
+                      <th>Entrega</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {externalBoard.cards.map((card, index) => (
+                      <tr key={index}>
+                        <td>{card.title}</td>
+                        <td>{card.columnTitle}</td>
+                        <td>{card.labelNames.join(', ')}</td>
+                        <td>{card.dueDate ? formatDateKey(card.dueDate) : ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {externalBoard.warnings.length > 0 && (
+                  <ul className="import-warnings">
+                    {externalBoard.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="modal-actions">
+              <button type="button" onClick={handleClose} className="btn-secondary">
+                Cancelar
+              </button>
+              <button type="submit" className="btn-primary" disabled={!isReady}>
+                Importar
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Modal for creating or editing a board
+ */
+const BoardModal: React.FC<{
+  isOpen: boolean;
+  board: Board | null;
+  onClose: () => void;
+  onSave: (name: string, description: string) => void;
+}> = ({ isOpen, board, onClose, onSave }) => {
+  const [name, setName] = useState(board?.name ?? '');
+  const [description, setDescription] = useState(board?.description ?? '');
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) {
+      onSave(name.trim(), description.trim());
+      onClose();
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{board ? 'Editar Quadro' : 'Novo Quadro'}</h2>
+          <button onClick={onClose} className="modal-close">
+            <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label>Nome *</label>
+            <input
+              type="text"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Digite o nome do quadro"
+              required
+              autoFocus
+            />
+          </div>
+          <div className="form-group">
+            <label>Descrição</label>
+            <textarea
+              value={description}
+              onChange={e => setDescription(e.target.value)}
+              placeholder="Digite a descrição (opcional)"
+              rows={3}
+            />
+          </div>
+          <div className="modal-actions">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancelar
+            </button>
+            <button type="submit" className="btn-primary">
+              {board ? 'Salvar' : 'Criar'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Board list page with create, edit and delete actions
+ */
+const BoardListPage: React.FC<{
+  boards: Board[];
+  onNavigate: (route: Route) => void;
+  onCreateBoard: (details: BoardDetails) => void;
+  onUpdateBoard: (id: string, updates: Partial<BoardDetails>) => void;
+  onDeleteBoard: (id: string) => void;
+}> = ({ boards, onNavigate, onCreateBoard, onUpdateBoard, onDeleteBoard }) => {
+  const [boardModal, setBoardModal] = useState<{ isOpen: boolean; board: Board | null }>({
+    isOpen: false,
+    board: null
+  });
+
+  return (
+    <main className="board-list-page">
+      <div className="board-list-header">
+        <h2>Meus Quadros</h2>
+        <button onClick={() => setBoardModal({ isOpen: true, board: null })} className="btn-primary">
+          Novo Quadro
+        </button>
+      </div>
+
+      <div className="board-list">
+        {boards.map(board => (
+          <div key={board.id} className="board-tile">
+            <Link
+              route={{ name: 'board', boardId: board.id }}
+              onNavigate={onNavigate}
+              className="board-tile-name"
+            >
+              {board.name}
+            </Link>
+            <p className="board-tile-description">
+              {board.description || 'Sem descrição'}
+            </p>
+            <div className="board-tile-footer">
+              <span className="board-tile-date" suppressHydrationWarning>
+                Criado em {new Date(board.createdAt).toLocaleDateString('pt-BR')}
+              </span>
+              <div className="board-tile-actions">
+                <button
+                  onClick={() => setBoardModal({ isOpen: true, board })}
+                  className="btn-edit-board"
+                  aria-label="Editar quadro"
+                >
+                  <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => onDeleteBoard(board.id)}
+                  className="btn-delete-board"
+                  aria-label="Excluir quadro"
+                >
+                  <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+        {boards.length === 0 && (
+          <div className="empty-state">
+            <p>Nenhum quadro ainda. Crie o primeiro!</p>
+          </div>
+        )}
+      </div>
+
+      <BoardModal
+        key={boardModal.board?.id ?? 'new'}
+        isOpen={boardModal.isOpen}
+        board={boardModal.board}
+        onClose={() => setBoardModal({ isOpen: false, board: null })}
+        onSave={(name, description) => {
+          if (boardModal.board) {
+            onUpdateBoard(boardModal.board.id, { name, description });
+          } else {
+            onCreateBoard({ name, description });
+          }
+        }}
+      />
+    </main>
+  );
+};
+
+// ============================================================================
+// MAIN APP COMPONENT
+// ============================================================================
+
+/**
+ * Board page - a single board's columns, cards and labels
+ */
+const BoardView: React.FC<{
+  board: Board;
+  boards: Board[];
+  adapter: PersistenceAdapter;
+  initialData?: BoardData | null;
+  darkMode: boolean;
+  toggleTheme: () => void;
+  onNavigate: (route: Route) => void;
+  onCreateBoard: (details: BoardDetails, data: BoardData) => void;
+  syncStatus: SyncStatus | null;
+  initialFilters: BoardFilters;
+}> = ({
+  board,
+  boards,
+  adapter,
+  initialData,
+  darkMode,
+  toggleTheme,
+  onNavigate,
+  onCreateBoard,
+  syncStatus,
+  initialFilters
+}) => {
+  // Initialize controller with the data rendered by the server (or the default board)
+  const [controller] = useState(() => {
+    const model = new KanbanModel(initialData ?? undefined, board.id, adapter);
+    return new KanbanController(model);
+  });
+  const [isLoading, setIsLoading] = useState(initialData === undefined);
+
+  // State management
+  const [, forceUpdate] = useState({});
+  const [searchTerm, setSearchTerm] = useState(initialFilters.search);
+  const [selectedLabels, setSelectedLabels] = useState<string[]>(initialFilters.labels);
+  const [labelMode, setLabelMode] = useState<LabelMatchMode>(initialFilters.labelMode);
+  const [dueFilter, setDueFilter] = useState<DueFilter>(initialFilters.due);
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>(initialFilters.assignee);
+  const [currentMemberId, setCurrentMemberId] = useState<string | null>(null);
+  const [swimlaneMode, setSwimlaneMode] = useState<SwimlaneMode>('none');
+  const [dragState, setDragState] = useState<DragState>({
+    draggedCard: null,
+    sourceColumnId: null,
+    isDragging: false
+  });
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [draggedColumnId, setDraggedColumnId] = useState<string | null>(null);
+  const [columnDropIndex, setColumnDropIndex] = useState<number | null>(null);
+
+  // Modal states
+  const [addCardModal, setAddCardModal] = useState<{ isOpen: boolean; columnId: string | null; laneKey?: string }>({
+    isOpen: false,
+    columnId: null
+  });
+  const [addColumnModal, setAddColumnModal] = useState(false);
+  const [detailCardId, setDetailCardId] = useState<string | null>(null);
+  const [wipLimitColumnId, setWipLimitColumnId] = useState<string | null>(null);
+  const [manageLabelsModal, setManageLabelsModal] = useState(false);
+  const [manageMembersModal, setManageMembersModal] = useState(false);
+  const [importModal, setImportModal] = useState(false);
+  const [activityModal, setActivityModal] = useState(false);
+  const [shortcutHelpModal, setShortcutHelpModal] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Subscribe to controller changes
+  useEffect(() => {
+    const unsubscribe = controller.subscribe(() => {
+      forceUpdate({});
+    });
+    return unsubscribe;
+  }, [controller]);
+
+  // Load persisted board unless the server already embedded it
+  useEffect(() => {
+    if (!isLoading) return;
+    controller.reload().then(() => setIsLoading(false));
+  }, [controller, isLoading]);
+
+  // Pick up changes saved by other tabs of this browser
+  useEffect(() => {
+    if (isLoading) return;
+    return controller.startTabSync();
+  }, [controller, isLoading]);
+
+  // Restore undo/redo history after hydration so server and client markup match
+  useEffect(() => {
+    controller.loadHistory();
+  }, [controller]);
+
+  // "Me" is a per-browser choice, so it is also restored after hydration
+  useEffect(() => {
+    setCurrentMemberId(
+      StorageService.loadFromStorage<string | null>(StorageService.getCurrentMemberKey(board.id), null)
+    );
+  }, [board.id]);
+
+  // Keep the filters in the URL so the filtered board can be reloaded and shared
+  useEffect(() => {
+    const filters = { search: searchTerm, labels: selectedLabels, labelMode, due: dueFilter, assignee: assigneeFilter };
+    const url = `${routeToPath({ name: 'board', boardId: board.id })}${filtersToQuery(filters)}`;
+    if (url !== `${window.location.pathname}${window.location.search}`) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [board.id, searchTerm, selectedLabels, labelMode, dueFilter, assigneeFilter]);
+
+  // Swimlane layout is a per-browser view preference as well
+  useEffect(() => {
+    setSwimlaneMode(
+      StorageService.loadFromStorage<SwimlaneMode>(StorageService.getSwimlaneModeKey(board.id), 'none')
+    );
+  }, [board.id]);
+
+  // Undo/redo shortcuts; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        controller.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        controller.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [controller]);
+
+  // Get data from controller
+  const columns = controller.getColumns();
+  const labels = controller.getLabels();
+  const members = controller.getMembers();
+  const activeMemberId = members.some(m => m.id === currentMemberId) ? currentMemberId : null;
+  const activeMember = members.find(m => m.id === activeMemberId);
+  const presenceName = activeMember?.name ?? ANONYMOUS_ACTOR;
+  const presenceInitials = activeMember?.initials ?? 'V';
+  const presenceColor = activeMember?.color ?? 'gray';
+
+  // Join the board's live room once the board is loaded
+  useEffect(() => {
+    if (isLoading) return;
+    return controller.startLiveSession({ name: ANONYMOUS_ACTOR, initials: 'V', color: 'gray' });
+  }, [controller, isLoading]);
+
+  // Others see the member chosen as "me", or an anonymous visitor, who is also credited in the activity log
+  useEffect(() => {
+    controller.setPresenceUser({ name: presenceName, initials: presenceInitials, color: presenceColor });
+    controller.setActor(presenceName, activeMemberId);
+  }, [controller, isLoading, presenceName, presenceInitials, presenceColor, activeMemberId]);
+
+  // Current names of everything the activity log may refer to by ID
+  const activityNames = new Map<string, string>([
+    ...columns.map(c => [c.id, c.title] as [string, string]),
+    ...labels.map(l => [l.id, l.name] as [string, string]),
+    ...members.map(m => [m.id, m.name] as [string, string]),
+    ...controller.getLanes().map(l => [l.id, l.title] as [string, string]),
+  ]);
+
+  const swimlanes = controller.getSwimlanes(swimlaneMode);
+  const searchQuery = useMemo(() => parseSearchQuery(searchTerm), [searchTerm]);
+  const searchErrors = controller.getSearchErrors(searchQuery);
+  const searchHighlights = getSearchHighlights(searchQuery);
+
+  const filters: BoardFilters = {
+    search: searchTerm,
+    labels: selectedLabels,
+    labelMode,
+    due: dueFilter,
+    assignee: assigneeFilter,
+  };
+
+  // Filter the whole board once per render, then hand each column its share
+  const visibleCardsByColumn = new Map<string, Card[]>();
+  controller.filterCards(filters, searchQuery, activeMemberId)
+    .sort((a, b) => a.order - b.order)
+    .forEach(card => {
+      const columnCards = visibleCardsByColumn.get(card.columnId);
+      if (columnCards) columnCards.push(card);
+      else visibleCardsByColumn.set(card.columnId, [card]);
+    });
+
+  // Filtered cards of a column, limited to one swimlane when a lane key is given
+  const getFilteredCards = (columnId: string, laneKey?: string): Card[] => {
+    const cards = visibleCardsByColumn.get(columnId) ?? [];
+    return laneKey === undefined
+      ? cards
+      : cards.filter(card => controller.getCardLaneKey(card, swimlaneMode) === laneKey);
+  };
+
+  // Handlers
+  const views = controller.getViews();
+  const activeViewId = views.find(view => areFiltersEqual(view.filters, filters))?.id ?? null;
+
+  // Labels deleted since a view was saved are dropped from its filters
+  const applyFilters = (next: BoardFilters) => {
+    setSearchTerm(next.search);
+    setSelectedLabels(next.labels.filter(id => id === NO_LABEL_FILTER || labels.some(l => l.id === id)));
+    setLabelMode(next.labelMode);
+    setDueFilter(next.due);
+    setAssigneeFilter(next.assignee);
+  };
+
+  const handleSaveView = () => {
+    const name = prompt('Nome da visão:');
+    if (name?.trim()) controller.addView(name.trim(), filters);
+  };
+
+  const handleRenameView = (view: SavedView) => {
+    const name = prompt('Novo nome da visão:', view.name);
+    if (name?.trim()) controller.updateView(view.id, { name: name.trim() });
+  };
+
+  const handleDeleteView = (view: SavedView) => {
+    if (confirm(`Deseja realmente excluir a visão "${view.name}"?`)) controller.deleteView(view.id);
+  };
+
+  const handleCopyFilterLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .catch(() => prompt('Copie o link:', window.location.href));
+  };
+
+  const handleLabelToggle = (labelId: string) => {
+    setSelectedLabels(prev =>
+      prev.includes(labelId)
+        ? prev.filter(id => id !== labelId)
+        : [...prev, labelId]
+    );
+  };
+
+  const handleSetCurrentMember = (memberId: string | null) => {
+    setCurrentMemberId(memberId);
+    StorageService.saveToStorage(StorageService.getCurrentMemberKey(board.id), memberId);
+    if (!memberId && assigneeFilter === 'me') setAssigneeFilter('all');
+  };
+
+  const handleDeleteMember = (memberId: string) => {
+    if (!confirm('Deseja realmente excluir este membro? Ele será removido de todos os cards.')) return;
+    controller.deleteMember(memberId);
+    if (assigneeFilter === memberId) setAssigneeFilter('all');
+  };
+
+  const handleAddColumn = (title: string, color: string) => {
+    controller.addColumn(title, color);
+  };
+
+  const handleAddCard = (columnId: string, title: string, description: string, laneKey?: string) => {
+    const card = {
+      title,
+      description,
+      columnId,
+      labels: []
+    };
+    const rejection = laneKey === undefined
+      ? controller.addCard(card)
+      : controller.addCardToLane(card, swimlaneMode, laneKey);
+    if (rejection) alert(rejection);
+  };
+
+  const handleCardDragStart = (card: Card) => {
+    setDragState({
+      draggedCard: card,
+      sourceColumnId: card.columnId,
+      isDragging: true
+    });
+  };
+
+  const handleCardDragEnd = () => {
+    setDragState({
+      draggedCard: null,
+      sourceColumnId: null,
+      isDragging: false
+    });
+    setDropTarget(null);
+  };
+
+  const handleCardDragOver = (columnId: string, index: number, laneKey?: string) => {
+    if (dragState.isDragging) setDropTarget({ columnId, laneKey, index });
+  };
+
+  const handleCardDragLeave = (columnId: string, laneKey?: string) => {
+    setDropTarget(prev => (prev?.columnId === columnId && prev.laneKey === laneKey ? null : prev));
+  };
+
+  /**
+   * Move a card to a drop index among the displayed (possibly filtered) cards,
+   * translated into a position in the full column
+   */
+  const moveCardTo = (draggedCard: Card, targetColumnId: string, dropIndex: number, laneKey?: string) => {
+    const displayedCards = getFilteredCards(targetColumnId, laneKey);
+    const columnCards = controller
+      .getCardsByColumn(targetColumnId)
+      .filter(c => c.id !== draggedCard.id);
+
+    const cardBelow = displayedCards.slice(dropIndex).find(c => c.id !== draggedCard.id);
+    const cardAbove = displayedCards.slice(0, dropIndex).reverse().find(c => c.id !== draggedCard.id);
+    const targetOrder = cardBelow
+      ? columnCards.findIndex(c => c.id === cardBelow.id)
+      : cardAbove
+        ? columnCards.findIndex(c => c.id === cardAbove.id) + 1
+        : columnCards.length;
+
+    const currentCards = controller.getCardsByColumn(draggedCard.columnId);
+    const isSamePosition = draggedCard.columnId === targetColumnId &&
+      currentCards.findIndex(c => c.id === draggedCard.id) === targetOrder;
+    const isSameLane = laneKey === undefined ||
+      controller.getCardLaneKey(draggedCard, swimlaneMode) === laneKey;
+    if (isSamePosition && isSameLane) return;
+
+    const rejection = isSameLane
+      ? controller.moveCard(draggedCard.id, targetColumnId, targetOrder)
+      : controller.moveCardToLane(draggedCard.id, targetColumnId, targetOrder, swimlaneMode, laneKey);
+    if (rejection) alert(rejection);
+  };
+
+  const handleCardDrop = (targetColumnId: string, dropIndex: number, laneKey?: string) => {
+    const draggedCard = dragState.draggedCard;
+    setDropTarget(null);
+    if (draggedCard) moveCardTo(draggedCard, targetColumnId, dropIndex, laneKey);
+  };
+
+  // Keyboard navigation follows the cards as displayed: filtered, and split by lane when swimlanes are on
+  const laneKeys = swimlaneMode === 'none' ? [undefined] : swimlanes.map(lane => lane.key);
+
+  const focusCard = (cardId: string) => {
+    requestAnimationFrame(() =>
+      document.querySelector<HTMLElement>(`[data-card-id="${CSS.escape(cardId)}"]`)?.focus()
+    );
+  };
+
+  const isModalOpen = addCardModal.isOpen || addColumnModal || detailCardId !== null ||
+    wipLimitColumnId !== null || manageLabelsModal || manageMembersModal || importModal || activityModal;
+
+  /**
+   * Arrows move the focus between cards, Shift + arrows move the focused card; "n", "/" and "?" work anywhere outside text fields
+   */
+  const handleBoardKeyDown = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+    if (shortcutHelpModal) {
+      if (e.key === 'Escape' || e.key === '?') {
+        e.preventDefault();
+        setShortcutHelpModal(false);
+      }
+      return;
+    }
+    if (isModalOpen) return;
+
+    const cardElement = target.closest<HTMLElement>('[data-card-id]');
+    const card = cardElement ? controller.getCard(cardElement.dataset.cardId!) : null;
+    const columnIndex = card ? columns.findIndex(c => c.id === card.columnId) : -1;
+    const laneKey = card && swimlaneMode !== 'none' ? controller.getCardLaneKey(card, swimlaneMode) : undefined;
+
+    if (e.key === '?') {
+      e.preventDefault();
+      setShortcutHelpModal(true);
+      return;
+    }
+    if (e.key === '/') {
+      e.preventDefault();
+      searchInputRef.current?.focus();
+      return;
+    }
+    if (e.key.toLowerCase() === 'n' && !e.shiftKey) {
+      const column = columns[Math.max(columnIndex, 0)];
+      if (!column) return;
+      e.preventDefault();
+      setAddCardModal({ isOpen: true, columnId: column.id, laneKey });
+      return;
+    }
+
+    if (!e.key.startsWith('Arrow')) return;
+    // Other controls (e.g. the column drag handles) keep their own arrow keys
+    if (!card && target !== document.body) return;
+    e.preventDefault();
+
+    if (!card) {
+      const first = columns.flatMap(column => laneKeys.flatMap(key => getFilteredCards(column.id, key)))[0];
+      if (first) focusCard(first.id);
+      return;
+    }
+
+    const cell = getFilteredCards(card.columnId, laneKey);
+    const index = cell.findIndex(c => c.id === card.id);
+    const step = e.key === 'ArrowUp' || e.key === 'ArrowLeft' ? -1 : 1;
+    const isVertical = e.key === 'ArrowUp' || e.key === 'ArrowDown';
+
+    if (e.shiftKey) {
+      if (isVertical) {
+        if (index + step < 0 || index + step >= cell.length) return;
+        moveCardTo(card, card.columnId, step < 0 ? index - 1 : index + 2, laneKey);
+      } else {
+        const column = columns[columnIndex + step];
+        if (!column) return;
+        moveCardTo(card, column.id, Math.min(index, getFilteredCards(column.id, laneKey).length), laneKey);
+      }
+      focusCard(card.id);
+      return;
+    }
+
+    if (isVertical) {
+      // Up and down run through the column from lane to lane
+      const stack = laneKeys.flatMap(key => getFilteredCards(card.columnId, key));
+      const next = stack[stack.findIndex(c => c.id === card.id) + step];
+      if (next) focusCard(next.id);
+      return;
+    }
+
+    // Left and right skip columns with no cards in this lane
+    for (let i = columnIndex + step; i >= 0 && i < columns.length; i += step) {
+      const cards = getFilteredCards(columns[i].id, laneKey);
+      if (cards.length > 0) {
+        focusCard(cards[Math.min(index, cards.length - 1)].id);
+        return;
+      }
+    }
+  };
+
+  // Re-subscribed on every render so the handler sees the current filters and layout
+  useEffect(() => {
+    window.addEventListener('keydown', handleBoardKeyDown);
+    return () => window.removeEventListener('keydown', handleBoardKeyDown);
+  });
+
+  /**
+   * Move a column to a new index and persist the order
+   */
+  const moveColumnTo = (columnId: string, targetIndex: number) => {
+    const columnIds = columns.map(c => c.id);
+    const fromIndex = columnIds.indexOf(columnId);
+    const index = Math.max(0, Math.min(targetIndex, columnIds.length - 1));
+    if (fromIndex === -1 || fromIndex === index) return;
+
+    columnIds.splice(fromIndex, 1);
+    columnIds.splice(index, 0, columnId);
+    controller.reorderColumns(columnIds);
+  };
+
+  const handleColumnDragEnd = () => {
+    setDraggedColumnId(null);
+    setColumnDropIndex(null);
+  };
+
+  const handleColumnDragOver = (columnIndex: number, position: 'before' | 'after') => {
+    if (draggedColumnId) setColumnDropIndex(position === 'before' ? columnIndex : columnIndex + 1);
+  };
+
+  const handleColumnDrop = () => {
+    if (draggedColumnId && columnDropIndex !== null) {
+      const fromIndex = columns.findIndex(c => c.id === draggedColumnId);
+      moveColumnTo(draggedColumnId, columnDropIndex > fromIndex ? columnDropIndex - 1 : columnDropIndex);
+    }
+    handleColumnDragEnd();
+  };
+
+  const handleDeleteCard = (cardId: string): boolean => {
+    if (!confirm('Deseja realmente excluir este card?')) return false;
+    controller.deleteCard(cardId);
+    return true;
+  };
+
+  /**
+   * Save the detail view's edits, moving the card to the end of another column if it changed
+   */
+  const handleSaveCardDetails = (cardId: string, updates: Partial<Card>, columnId: string): boolean => {
+    const rejection = controller.saveCard(cardId, updates, columnId);
+    if (rejection) alert(rejection);
+    return !rejection;
+  };
+
+  const handleDeleteColumn = (columnId: string) => {
+    if (confirm('Deseja realmente excluir esta coluna e todos os seus cards?')) {
+      controller.deleteColumn(columnId);
+    }
+  };
+
+  const hasActiveFilters = Boolean(searchTerm) ||
+    selectedLabels.length > 0 ||
+    dueFilter !== 'all' ||
+    assigneeFilter !== 'all';
+
+  /**
+   * Download the board; CSV and Markdown list the cards currently shown when filteredOnly is set
+   */
+  const handleExport = (format: ExportFormat, filteredOnly: boolean) => {
+    const data = controller.getAllData();
+    if (format === 'json') {
+      const file = createBoardExport(board, data);
+      downloadFile(getExportFileName(board, 'json'), JSON.stringify(file, null, 2), 'application/json');
+      return;
+    }
+
+    const sections = columns.map(column => ({
+      column,
+      cards: filteredOnly ? getFilteredCards(column.id) : controller.getCardsByColumn(column.id),
+    }));
+    if (format === 'csv') {
+      downloadFile(getExportFileName(board, 'csv'), exportCardsToCsv(sections, data), 'text/csv;charset=utf-8');
+    } else {
+      const markdown = exportCardsToMarkdown(board, sections, data, filteredOnly);
+      downloadFile(getExportFileName(board, 'md'), markdown, 'text/markdown;charset=utf-8');
+    }
+  };
+
+  const handleSwimlaneModeChange = (mode: SwimlaneMode) => {
+    setSwimlaneMode(mode);
+    StorageService.saveToStorage(StorageService.getSwimlaneModeKey(board.id), mode);
+  };
+
+  const handleAddLane = () => {
+    const title = prompt('Nome da nova raia:');
+    if (title?.trim()) controller.addLane(title.trim());
+  };
+
+  const handleDeleteLane = (laneId: string) => {
+    if (confirm('Deseja realmente excluir esta raia? Os cards irão para "Sem raia".')) {
+      controller.deleteLane(laneId);
+    }
+  };
+
+  /**
+   * One row of columns, showing only the cards of a swimlane when given
+   */
+  const renderColumns = (lane?: Swimlane) => (
+    <>
+      {columns.map((column, columnIndex) => {
+        const isDropTarget = dragState.isDragging &&
+          dropTarget?.columnId === column.id &&
+          dropTarget.laneKey === lane?.key;
+
+        return (
+          <React.Fragment key={column.id}>
+            {columnDropIndex === columnIndex && <div className="column-drop-indicator" />}
+            <ColumnComponent
+              column={column}
+              cards={getFilteredCards(column.id, lane?.key)}
+              totalCards={controller.getCardsByColumn(column.id).length}
+              labels={labels}
+              members={members}
+              highlights={searchHighlights}
+              onAddCard={() => setAddCardModal({ isOpen: true, columnId: column.id, laneKey: lane?.key })}
+              onEditWipLimit={() => setWipLimitColumnId(column.id)}
+              onUpdateCard={(cardId, updates) => controller.updateCard(cardId, updates)}
+              onDeleteCard={handleDeleteCard}
+              onUpdateColumn={updates => controller.updateColumn(column.id, updates)}
+              onDeleteColumn={() => handleDeleteColumn(column.id)}
+              onOpenCard={setDetailCardId}
+              onCardDragStart={handleCardDragStart}
+              onCardDragEnd={handleCardDragEnd}
+              onCardDragOver={index => handleCardDragOver(column.id, index, lane?.key)}
+              onCardDragLeave={() => handleCardDragLeave(column.id, lane?.key)}
+              onCardDrop={dropIndex => handleCardDrop(column.id, dropIndex, lane?.key)}
+              isDraggingOver={isDropTarget}
+              isDropBlocked={
+                dragState.draggedCard !== null &&
+                controller.getWipLimitViolation(column.id, dragState.draggedCard.id) !== null
+              }
+              dropIndex={isDropTarget ? dropTarget.index : null}
+              onColumnDragStart={() => setDraggedColumnId(column.id)}
+              onColumnDragEnd={handleColumnDragEnd}
+              onColumnDragOver={position => handleColumnDragOver(columnIndex, position)}
+              onColumnDrop={handleColumnDrop}
+              onMoveColumn={offset => moveColumnTo(column.id, columnIndex + offset)}
+              isColumnDragging={draggedColumnId === column.id}
+            />
+          </React.Fragment>
+        );
+      })}
+      {columnDropIndex === columns.length && <div className="column-drop-indicator" />}
+    </>
+  );
+
+  return (
+    <>
+      <Header
+        darkMode={darkMode}
+        toggleTheme={toggleTheme}
+        boards={boards}
+        currentBoardId={board.id}
+        onNavigate={onNavigate}
+        onAddColumn={() => setAddColumnModal(true)}
+        onImport={() => setImportModal(true)}
+        onExport={handleExport}
+        onShowActivity={() => setActivityModal(true)}
+        hasActiveFilters={hasActiveFilters}
+        viewers={controller.getPresence()}
+        syncStatus={syncStatus}
+        history={{
+          undoDescription: controller.getUndoDescription(),
+          redoDescription: controller.getRedoDescription(),
+          onUndo: () => controller.undo(),
+          onRedo: () => controller.redo(),
+        }}
+      />
+
+      <FilterBar
+        searchTerm={searchTerm}
+        onSearchChange={setSearchTerm}
+        searchErrors={searchErrors}
+        searchInputRef={searchInputRef}
+        selectedLabels={selectedLabels}
+        onLabelToggle={handleLabelToggle}
+        labelMode={labelMode}
+        onLabelModeChange={setLabelMode}
+        labels={labels}
+        onManageLabels={() => setManageLabelsModal(true)}
+        dueFilter={dueFilter}
+        onDueFilterChange={setDueFilter}
+        members={members}
+        assigneeFilter={assigneeFilter}
+        onAssigneeFilterChange={setAssigneeFilter}
+        hasCurrentMember={activeMemberId !== null}
+        onManageMembers={() => setManageMembersModal(true)}
+        swimlaneMode={swimlaneMode}
+        onSwimlaneModeChange={handleSwimlaneModeChange}
+        views={views}
+        activeViewId={activeViewId}
+        canSaveView={hasActiveFilters}
+        onApplyView={view => applyFilters(view.filters)}
+        onSaveView={handleSaveView}
+        onTogglePinView={view => controller.updateView(view.id, { pinned: !view.pinned })}
+        onRenameView={handleRenameView}
+        onDeleteView={handleDeleteView}
+        onCopyFilterLink={handleCopyFilterLink}
+      />
+
+      <main className="board-container">
+        {isLoading ? (
+          <div className="empty-state">
+            <p>Carregando quadro...</p>
+          </div>
+        ) : controller.getLoadError() ? (
+          <div className="empty-state" role="alert">
+            <p>Não foi possível carregar este quadro: {controller.getLoadError()}</p>
+            <p>Nenhuma alteração será salva até que ele seja carregado. Recarregue a página para tentar novamente.</p>
+          </div>
+        ) : swimlaneMode === 'none' ? (
+          <div className="board">{renderColumns()}</div>
+        ) : (
+          <div className="swimlane-board">
+            {swimlanes.map(lane => (
+              <section key={lane.key || 'none'} className="swimlane">
+                <SwimlaneHeader
+                  lane={lane}
+                  cardCount={columns.reduce((count, column) => count + getFilteredCards(column.id, lane.key).length, 0)}
+                  onRename={title => controller.updateLane(lane.key, { title })}
+                  onDelete={() => handleDeleteLane(lane.key)}
+                />
+                <div className="board">{renderColumns(lane)}</div>
+              </section>
+            ))}
+            {swimlaneMode === 'lanes' && (
+              <button onClick={handleAddLane} className="btn-add-lane">
+                <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                Nova Raia
+              </button>
+            )}
+          </div>
+        )}
+      </main>
+
+      {/* Modals */}
+      <AddCardModal
+        isOpen={addCardModal.isOpen}
+        onClose={() => setAddCardModal({ isOpen: false, columnId: null })}
+        onAdd={(title, description) => {
+          if (addCardModal.columnId) {
+            handleAddCard(addCardModal.columnId, title, description, addCardModal.laneKey);
+          }
+        }}
+      />
+
+      <CardDetailModal
+        key={detailCardId ?? 'none'}
+        card={detailCardId ? controller.getCard(detailCardId) : null}
+        columns={columns}
+        labels={labels}
+        members={members}
+        activity={detailCardId ? controller.getCardActivity(detailCardId) : []}
+        activityNames={activityNames}
+        onClose={() => setDetailCardId(null)}
+        onSave={(updates, columnId) => !detailCardId || handleSaveCardDetails(detailCardId, updates, columnId)}
+        onDelete={() => {
+          if (detailCardId && handleDeleteCard(detailCardId)) setDetailCardId(null);
+        }}
+        onAddComment={body => detailCardId && controller.addComment(detailCardId, body)}
+        onUpdateComment={(commentId, body) => detailCardId && controller.updateComment(detailCardId, commentId, body)}
+        onDeleteComment={commentId => detailCardId && controller.deleteComment(detailCardId, commentId)}
+      />
+
+      <WipLimitModal
+        key={wipLimitColumnId ?? 'none'}
+        column={columns.find(c => c.id === wipLimitColumnId) ?? null}
+        onClose={() => setWipLimitColumnId(null)}
+        onSave={updates => wipLimitColumnId && controller.updateColumn(wipLimitColumnId, updates)}
+      />
+
+      <AddColumnModal
+        isOpen={addColumnModal}
+        onClose={() => setAddColumnModal(false)}
+        onAdd={handleAddColumn}
+      />
+
+      <ManageLabelsModal
+        isOpen={manageLabelsModal}
+        onClose={() => setManageLabelsModal(false)}
+        labels={labels}
+        onAddLabel={(name, color) => controller.addLabel(name, color)}
+        onUpdateLabel={(id, name) => controller.updateLabel(id, { name })}
+        onDeleteLabel={id => {
+          if (confirm('Deseja realmente excluir esta label?')) {
+            controller.deleteLabel(id);
+          }
+        }}
+      />
+
+      <ActivityFeedModal
+        isOpen={activityModal}
+        onClose={() => setActivityModal(false)}
+        activity={activityModal ? controller.getActivity() : []}
+        names={activityNames}
+      />
+
+      <ShortcutHelpModal
+        isOpen={shortcutHelpModal}
+        onClose={() => setShortcutHelpModal(false)}
+      />
+
+      <ImportBoardModal
+        isOpen={importModal}
+        onClose={() => setImportModal(false)}
+        currentData={importModal ? controller.getAllData() : null}
+        onImportAsNew={file => onCreateBoard(file.board, file.data)}
+        onMerge={(data, strategy) => controller.importData(data, strategy)}
+        getMissingForImport={board => controller.getMissingForImport(board)}
+        onImportExternal={board => controller.importExternalBoard(board)}
+      />
+
+      <ManageMembersModal
+        isOpen={manageMembersModal}
+        onClose={() => setManageMembersModal(false)}
+        members={members}
+        currentMemberId={activeMemberId}
+        onAddMember={(name, color, initials) => controller.addMember(name, color, initials)}
+        onUpdateMember={(id, updates) => controller.updateMember(id, updates)}
+        onDeleteMember={handleDeleteMember}
+        onSetCurrentMember={handleSetCurrentMember}
+      />
+    </>
+  );
+};
+
+const App: React.FC<{
+  url: string;
+  initialState?: InitialState;
+}> = ({ url, initialState }) => {
+  // Server-embedded state is only authoritative when boards live on the server
+  const hasServerState = initialState !== undefined && PERSISTENCE_MODE === 'api';
+
+  // Initialize dark mode from storage
+  const [darkMode, setDarkMode] = useState(() => {
+    return StorageService.loadFromStorage(StorageService.getKeys().DARK_MODE, false);
+  });
+
+  const [adapter] = useState(createPersistenceAdapter);
+  const [route, setRoute] = useState(() => parseRoute(url));
+  const [routeFilters, setRouteFilters] = useState(() => parseFilterQuery(url));
+  const [boards, setBoards] = useState<Board[]>(() => hasServerState ? initialState.boards : []);
+  const [boardsLoaded, setBoardsLoaded] = useState(hasServerState);
+  const [importModal, setImportModal] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+
+  // Embedded board data belongs to the first route only; later navigations load on demand
+  const [embeddedBoardData, setEmbeddedBoardData] = useState<BoardData | null | undefined>(
+    () => hasServerState ? initialState.boardData : undefined
+  );
+
+  // Update dark mode in DOM and storage
+  useEffect(() => {
+    if (isClient) {
+      document.documentElement.setAttribute('data-theme', darkMode ? 'dark' : 'light');
+      StorageService.saveToStorage(StorageService.getKeys().DARK_MODE, darkMode);
+    }
+  }, [darkMode]);
+
+  // Load board list when the server did not embed it
+  useEffect(() => {
+    if (boardsLoaded) return;
+    adapter.listBoards()
+      .then(setBoards)
+      .catch(error => console.error('Error loading boards:', error))
+      .finally(() => setBoardsLoaded(true));
+  }, [adapter, boardsLoaded]);
+
+  // Offline/syncing/synced indicator, for adapters that queue saves
+  useEffect(() => {
+    return adapter.subscribeSyncStatus?.(setSyncStatus);
+  }, [adapter]);
+
+  // Boards created, renamed or deleted in another tab
+  useEffect(() => {
+    return TabSync.subscribe(message => {
+      if (message.type !== 'boards') return;
+      adapter.listBoards()
+        .then(setBoards)
+        .catch(error => console.error('Error loading boards:', error));
+    });
+  }, [adapter]);
+
+  // Follow browser back/forward navigation
+  useEffect(() => {
+    const handlePopState = () => {
+      setEmbeddedBoardData(undefined);
+      setRouteFilters(parseFilterQuery(window.location.search));
+      setRoute(parseRoute(window.location.pathname));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const toggleTheme = () => setDarkMode(!darkMode);
+
+  const navigate = (nextRoute: Route) => {
+    window.history.pushState(null, '', routeToPath(nextRoute));
+    setEmbeddedBoardData(undefined);
+    setRouteFilters(EMPTY_FILTERS);
+    setRoute(nextRoute);
+  };
+
+  const handleCreateBoard = async (details: BoardDetails, data: BoardData = new KanbanModel().getAllData()) => {
+    try {
+      const board = await adapter.createBoard(details, data);
+      setBoards(prev => [...prev, board]);
+      navigate({ name: 'board', boardId: board.id });
+    } catch (error) {
+      console.error('Error creating board:', error);
+    }
+  };
+
+  const handleUpdateBoard = async (id: string, updates: Partial<BoardDetails>) => {
+    try {
+      const updated = await adapter.updateBoard(id, updates);
+      // Null means the board was deleted elsewhere
+      setBoards(prev => updated ? prev.map(b => (b.id === id ? updated : b)) : prev.filter(b => b.id !== id));
+    } catch (error) {
+      console.error('Error updating board:', error);
+    }
+  };
+
+  const handleDeleteBoard = async (id: string) => {
+    if (!confirm('Deseja realmente excluir este quadro e todos os seus cards?')) return;
+    try {
+      await adapter.deleteBoard(id);
+      setBoards(prev => prev.filter(b => b.id !== id));
+    } catch (error) {
+      console.error('Error deleting board:', error);
+    }
+  };
+
+  const currentBoard = route.name === 'board'
+    ? boards.find(b => b.id === route.boardId)
+    : undefined;
+
+  const renderPage = () => {
+    if (route.name === 'boards') {
+      return (
+        <BoardListPage
+          boards={boards}
+          onNavigate={navigate}
+          onCreateBoard={handleCreateBoard}
+          onUpdateBoard={handleUpdateBoard}
+          onDeleteBoard={handleDeleteBoard}
+        />
+      );
+    }
+
+    if (currentBoard) {
+      return (
+        <BoardView
+          key={currentBoard.id}
+          board={currentBoard}
+          boards={boards}
+          adapter={adapter}
+          initialData={embeddedBoardData}
+          darkMode={darkMode}
+          toggleTheme={toggleTheme}
+          onNavigate={navigate}
+          onCreateBoard={handleCreateBoard}
+          syncStatus={syncStatus}
+          initialFilters={routeFilters}
+        />
+      );
+    }
+
+    return (
+      <div className="empty-state">
+        {boardsLoaded ? (
+          <p>
+            Quadro não encontrado.{' '}
+            <Link route={{ name: 'boards' }} onNavigate={navigate}>Ver todos os quadros</Link>
+          </p>
+        ) : (
+          <p>Carregando quadro...</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="app">
+      {!currentBoard && (
+        <Header
+          darkMode={darkMode}
+          toggleTheme={toggleTheme}
+          boards={boards}
+          onNavigate={navigate}
+          onImport={() => setImportModal(true)}
+          syncStatus={syncStatus}
+        />
+      )}
+      {renderPage()}
+      {!currentBoard && (
+        <ImportBoardModal
+          isOpen={importModal}
+          onClose={() => setImportModal(false)}
+          currentData={null}
+          onImportAsNew={file => handleCreateBoard(file.board, file.data)}
+        />
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const APP_STYLES = `
+:root {
+  --primary: #3b82f6;
+  --primary-dark: #2563eb;
+  --success: #10b981;
+  --danger: #ef4444;
+  --warning: #f59e0b;
+  
+  --bg: #f1f5f9;
+  --surface: #ffffff;
+  --card-bg: #ffffff;
+  --text: #0f172a;
+  --text-secondary: #64748b;
+  --border: #e2e8f0;
+  --shadow: rgba(0, 0, 0, 0.1);
+  --shadow-lg: rgba(0, 0, 0, 0.15);
+  
+  --header-bg: #ffffff;
+  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.1);
+  --column-bg: #f8fafc;
+}
+
+[data-theme="dark"] {
+  --bg: #0f172a;
+  --surface: #1e293b;
+  --card-bg: #1e293b;
+  --text: #f1f5f9;
+  --text-secondary: #94a3b8;
+  --border: #334155;
+  --shadow: rgba(0, 0, 0, 0.3);
+  --shadow-lg: rgba(0, 0, 0, 0.5);
+  
+  --header-bg: #1e293b;
+  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.3);
+  --column-bg: #334155;
+}
+
+* {
+  margin: 0;
+  padding: 0;
+  box-sizing: border-box;
+}
+
+body {
+  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen',
+    'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif;
+  -webkit-font-smoothing: antialiased;
+  -moz-osx-font-smoothing: grayscale;
+  background: var(--bg);
+  color: var(--text);
+  transition: background-color 0.3s ease, color 0.3s ease;
+  overflow-x: hidden;
+}
+
+.app {
+  min-height: 100vh;
+  display: flex;
+  flex-direction: column;
+}
+
+/* Header Styles */
+.header {
+  background: var(--header-bg);
+  box-shadow: var(--header-shadow);
+  position: sticky;
+  top: 0;
+  z-index: 100;
+  transition: background-color 0.3s ease;
+}
+
+.header-content {
+  max-width: 100%;
+  margin: 0 auto;
+  padding: 1rem 2rem;
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+}
+
+.header-title {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  color: inherit;
+  text-decoration: none;
+}
+
+.header-icon {
+  width: 32px;
+  height: 32px;
+  color: var(--primary);
+}
+
+.header h1 {
+  font-size: 1.5rem;
+  font-weight: 700;
+  color: var(--text);
+}
+
+.header-actions {
+  display: flex;
+  align-items: center;
+  gap: 1rem;
+}
+
+.btn-add-column {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.625rem 1.25rem;
+  background: var(--primary);
+  color: white;
+  border: none;
+  border-radius: 8px;
+  font-weight: 600;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.btn-add-column:hover {
+  background: var(--primary-dark);
+  transform: translateY(-2px);
+  box-shadow: 0 4px 12px rgba(59, 130, 246, 0.4);
+}
+
+.btn-add-column svg {
+  width: 20px;
+  height: 20px;
+}
+
+.theme-toggle {
+  width: 40px;
+  height: 40px;
+  border-radius: 50%;
+  border: none;
+  background: var(--surface);
+  color: var(--text);
+  cursor: pointer;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  transition: all 0.2s ease;
+  box-shadow: 0 2px 4px var(--shadow);
+}
+
+.theme-toggle:hover {
+  transform: scale(1.05);
+  background: var(--primary);
+  color: white;
+}
+
+.theme-toggle svg {
+  width: 20px;
+  height: 20px;
+}
+
+.history-actions {
+  display: flex;
+  gap: 0.25rem;
+}
+
+.sync-status {
+  display: flex;
+  align-items: center;
+  gap: 0.375rem;
+  padding: 0.25rem 0.625rem;
+  border-radius: 999px;
+  background: var(--surface);
+  color: var(--text-secondary);
+  font-size: 0.75rem;
+  font-weight: 500;
+  white-space: nowrap;
+}
+
+.sync-status-dot {
+  width: 8px;
+  height: 8px;
+  border-radius: 50%;
+  background: #10b981;
+}
+
+.sync-status-syncing .sync-status-dot {
+  background: #f59e0b;
+  animation: syncPulse 1s ease-in-out infinite;
+}
+
+.sync-status-offline,
+.sync-status-error {
+  color: #ef4444;
+}
+
+.sync-status-offline .sync-status-dot,
+.sync-status-error .sync-status-dot {
+  background: #ef4444;
+}
+
+.presence {
+  display: flex;
+  align-items: center;
+  gap: 0.375rem;
+}
+
+.presence-dot {
+  width: 8px;
+  height: 8px;
+  border-radius: 50%;
+  background: #10b981;
+}
+
+.presence .avatar-stack .avatar {
+  border-color: var(--surface);
+}
+
+.btn-history {
+  width: 40px;
+  height: 40px;
+  border-radius: 50%;
+  border: none;
+  background: var(--surface);
+  color: var(--text);
+  cursor: pointer;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  transition: all 0.2s ease;
+  box-shadow: 0 2px 4px var(--shadow);
+}
+
+.btn-history:hover:not(:disabled) {
+  color: var(--primary);
+  transform: translateY(-2px);
+}
+
+.btn-history:disabled {
+  opacity: 0.4;
+  cursor: not-allowed;
+  box-shadow: none;
+}
+
+.btn-history svg {
+  width: 20px;
+  height: 20px;
+}
+
+.export-menu {
+  position: relative;
+}
+
+.export-menu-list {
+  position: absolute;
+  top: calc(100% + 0.5rem);
+  right: 0;
+  z-index: 20;
+  display: flex;
+  flex-direction: column;
+  min-width: 240px;
+  padding: 0.375rem;
+  background: var(--surface);
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  box-shadow: 0 8px 24px var(--shadow-lg);
+}
+
+.export-menu-list button {
+  padding: 0.5rem 0.75rem;
+  border: none;
+  border-radius: 6px;
+  background: transparent;
+  color: var(--text);
+  font-size: 0.875rem;
+  text-align: left;
+  cursor: pointer;
+}
+
+.export-menu-list button:hover {
+  background: var(--column-bg);
+  color: var(--primary);
+}
+
+.export-menu-filter {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  margin-top: 0.25rem;
+  padding: 0.5rem 0.75rem 0.25rem;
+  border-top: 1px solid var(--border);
+  font-size: 0.8125rem;
+  color: var(--text-secondary);
+  cursor: pointer;
+}
+
+.board-switcher {
+  max-width: 220px;
+  padding: 0.5rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+  font-size: 0.875rem;
+  font-weight: 500;
+  cursor: pointer;
+}
+
+.board-switcher:focus {
+  outline: none;
+  border-color: var(--primary);
+}
+
+/* Board List */
+.board-list-page {
+  flex: 1;
+  padding: 2rem;
+}
+
+.board-list-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 1.5rem;
+}
+
+.board-list-header h2 {
+  font-size: 1.25rem;
+  font-weight: 700;
+  color: var(--text);
+}
+
+.board-list {
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(260px, 1fr));
+  gap: 1.5rem;
+}
+
+.board-tile {
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
+  padding: 1.25rem;
+  background: var(--surface);
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  box-shadow: 0 2px 4px var(--shadow);
+  transition: all 0.2s ease;
+}
+
+.board-tile:hover {
+  box-shadow: 0 4px 12px var(--shadow-lg);
+  transform: translateY(-2px);
+}
+
+.board-tile-name {
+  font-size: 1.0625rem;
+  font-weight: 600;
+  color: var(--text);
+  text-decoration: none;
+  word-break: break-word;
+}
+
+.board-tile-name:hover {
+  color: var(--primary);
+}
+
+.board-tile-description {
+  flex: 1;
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+  line-height: 1.5;
+  word-break: break-word;
+}
+
+.board-tile-footer {
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 0.5rem;
+}
+
+.board-tile-date {
+  font-size: 0.75rem;
+  color: var(--text-secondary);
+}
+
+.board-tile-actions {
+  display: flex;
+  gap: 0.25rem;
+}
+
+.btn-edit-board,
+.btn-delete-board {
+  width: 28px;
+  height: 28px;
+  border: none;
+  border-radius: 6px;
+  background: transparent;
+  color: var(--text-secondary);
+  cursor: pointer;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  transition: all 0.2s ease;
+}
+
+.btn-edit-board:hover {
+  background: var(--primary);
+  color: white;
+}
+
+.btn-delete-board:hover {
+  background: var(--danger);
+  color: white;
+}
+
+.btn-edit-board svg,
+.btn-delete-board svg {
+  width: 16px;
+  height: 16px;
+}
+
+.empty-state {
+  flex: 1;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  text-align: center;
+  color: var(--text-secondary);
+  padding: 3rem 2rem;
+}
+
+.empty-state a {
+  color: var(--primary);
+}
+
+/* Filter Bar */
+.filter-bar {
+  background: var(--header-bg);
+  padding: 1rem 2rem;
+  border-bottom: 1px solid var(--border);
+  display: flex;
+  gap: 1rem;
+  align-items: center;
+  flex-wrap: wrap;
+}
+
+.search-box {
+  position: relative;
+  flex: 1;
+  min-width: 250px;
+}
+
+.search-box svg {
+  position: absolute;
+  left: 1rem;
+  top: 50%;
+  transform: translateY(-50%);
+  width: 20px;
+  height: 20px;
+  color: var(--text-secondary);
+}
+
+.search-box input {
+  width: 100%;
+  padding: 0.75rem 1rem 0.75rem 3rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--surface);
+  color: var(--text);
+  font-size: 0.9375rem;
+  transition: all 0.2s ease;
+}
+
+.search-box input:focus {
+  outline: none;
+  border-color: var(--primary);
+  box-shadow: 0 0 0 3px rgba(59, 130, 246, 0.1);
+}
+
+.search-box input,
+.search-highlight {
+  font-family: inherit;
+  letter-spacing: normal;
+}
+
+.search-box.has-errors input {
+  border-color: #ef4444;
+}
+
+/* Transparent copy of the query laid over the input, so only the error underlines show */
+.search-highlight {
+  position: absolute;
+  top: 0;
+  left: 0;
+  right: 0;
+  padding: 0.75rem 1rem 0.75rem 3rem;
+  border: 1px solid transparent;
+  font-size: 0.9375rem;
+  color: transparent;
+  white-space: pre;
+  overflow: hidden;
+  pointer-events: none;
+}
+
+.search-error {
+  text-decoration: underline wavy #ef4444;
+  text-underline-offset: 3px;
+}
+
+.search-errors {
+  list-style: none;
+  margin-top: 0.375rem;
+  font-size: 0.75rem;
+  color: #ef4444;
+}
+
+.saved-views {
+  display: flex;
+  align-items: center;
+  gap: 0.375rem;
+  flex-wrap: wrap;
+}
+
+.saved-view-chip {
+  padding: 0.375rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 999px;
+  background: transparent;
+  color: var(--text);
+  font-size: 0.8125rem;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.saved-view-chip:hover {
+  border-color: var(--primary);
+  color: var(--primary);
+}
+
+.saved-view-chip.active {
+  background: var(--primary);
+  border-color: var(--primary);
+  color: white;
+}
+
+.views-menu {
+  position: relative;
+}
+
+.views-menu-list {
+  position: absolute;
+  top: calc(100% + 0.5rem);
+  left: 0;
+  z-index: 20;
+  display: flex;
+  flex-direction: column;
+  min-width: 260px;
+  padding: 0.375rem;
+  background: var(--surface);
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  box-shadow: 0 8px 24px var(--shadow-lg);
+}
+
+.views-menu-list .form-hint {
+  padding: 0.5rem 0.75rem;
+}
+
+.views-menu-item {
+  display: flex;
+  align-items: center;
+  gap: 0.125rem;
+  border-radius: 6px;
+}
+
+.views-menu-item:hover,
+.views-menu-item.active {
+  background: var(--column-bg);
+}
+
+.views-menu-name,
+.views-menu-footer button {
+  flex: 1;
+  padding: 0.5rem 0.75rem;
+  border: none;
+  border-radius: 6px;
+  background: transparent;
+  color: var(--text);
+  font-size: 0.875rem;
+  text-align: left;
+  cursor: pointer;
+}
+
+.views-menu-item.active .views-menu-name {
+  color: var(--primary);
+  font-weight: 600;
+}
+
+.views-menu-action {
+  display: flex;
+  padding: 0.375rem;
+  border: none;
+  border-radius: 6px;
+  background: transparent;
+  color: var(--text-secondary);
+  cursor: pointer;
+}
+
+.views-menu-action svg {
+  width: 16px;
+  height: 16px;
+}
+
+.views-menu-action:hover,
+.views-menu-action.pinned {
+  color: var(--primary);
+}
+
+.views-menu-footer {
+  display: flex;
+  flex-direction: column;
+  margin-top: 0.25rem;
+  padding-top: 0.25rem;
+  border-top: 1px solid var(--border);
+}
+
+.views-menu-footer button:hover:not(:disabled) {
+  background: var(--column-bg);
+  color: var(--primary);
+}
+
+.views-menu-footer button:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.search-match {
+  background: rgba(250, 204, 21, 0.45);
+  color: inherit;
+  border-radius: 2px;
+}
+
+.due-filters,
+.label-modes {
+  display: flex;
+  gap: 0.25rem;
+  padding: 0.25rem;
+  background: var(--column-bg);
+  border-radius: 8px;
+}
+
+.due-filter {
+  padding: 0.375rem 0.75rem;
+  border: none;
+  border-radius: 6px;
+  background: transparent;
+  color: var(--text-secondary);
+  font-size: 0.8125rem;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.due-filter:hover {
+  color: var(--text);
+}
+
+.due-filter.active {
+  background: var(--surface);
+  color: var(--primary);
+  font-weight: 600;
+  box-shadow: 0 1px 3px var(--shadow);
+}
+
+.label-filters {
+  display: flex;
+  gap: 0.5rem;
+  flex-wrap: wrap;
+  align-items: center;
+}
+
+.assignee-filters {
+  display: flex;
+  gap: 0.5rem;
+  align-items: center;
+}
+
+.assignee-filters select {
+  padding: 0.5rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  background: var(--surface);
+  color: var(--text);
+  font-size: 0.875rem;
+  cursor: pointer;
+}
+
+.assignee-filters select:focus {
+  outline: none;
+  border-color: var(--primary);
+}
+
+.manage-labels-btn {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.5rem 1rem;
+  background: var(--surface);
+  color: var(--text);
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.manage-labels-btn:hover {
+  background: var(--primary);
+  color: white;
+  border-color: var(--primary);
+}
+
+.manage-labels-btn svg {
+  width: 16px;
+  height: 16px;
+}
+
+.label-filter {
+  padding: 0.5rem 1rem;
+  border: 2px solid;
+  border-radius: 6px;
+  background: transparent;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+  font-size: 0.875rem;
+}
+
+.label-filter:hover {
+  transform: translateY(-2px);
+  box-shadow: 0 2px 8px var(--shadow);
+}
+
+.label-filter.active {
+  font-weight: 600;
+}
+
+.no-label-filter {
+  border-style: dashed;
+  border-color: var(--border);
+  color: var(--text-secondary);
+}
+
+.no-label-filter.active {
+  background: var(--text-secondary);
+  border-color: var(--text-secondary);
+  color: var(--surface);
+}
+
+/* Board Container */
+.board-container {
+  flex: 1;
+  padding: 2rem;
+  overflow-x: auto;
+  overflow-y: hidden;
+}
+
+.board {
+  display: flex;
+  gap: 1.5rem;
+  min-height: calc(100vh - 200px);
+  padding-bottom: 2rem;
+}
+
+/* Swimlanes */
+.swimlane-board {
+  display: flex;
+  flex-direction: column;
+  gap: 1.5rem;
+  width: max-content;
+  min-width: 100%;
+  max-height: calc(100vh - 200px);
+  overflow-y: auto;
+  padding-bottom: 2rem;
+}
+
+.swimlane {
+  border: 1px solid var(--border);
+  border-radius: 12px;
+  padding: 1rem;
+}
+
+.swimlane .board {
+  min-height: 0;
+  padding-bottom: 0;
+}
+
+.swimlane .column {
+  max-height: none;
+}
+
+.swimlane-header {
+  display: flex;
+  align-items: center;
+  gap: 0.75rem;
+  margin-bottom: 1rem;
+  position: sticky;
+  left: 0;
+  width: fit-content;
+}
+
+.swimlane-color {
+  width: 12px;
+  height: 12px;
+  border-radius: 50%;
+  flex-shrink: 0;
+}
+
+.swimlane-title {
+  font-size: 1rem;
+  font-weight: 700;
+  color: var(--text);
+}
+
+.swimlane-title.editable {
+  cursor: pointer;
+}
+
+.swimlane-title.editable:hover {
+  color: var(--primary);
+}
+
+.swimlane-title-input {
+  padding: 0.375rem 0.75rem;
+  border: 2px solid var(--primary);
+  border-radius: 6px;
+  background: var(--surface);
+  color: var(--text);
+  font-size: 1rem;
+  font-weight: 700;
+}
+
+.swimlane-title-input:focus {
+  outline: none;
+}
+
+.btn-add-lane {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 0.5rem;
+  padding: 0.75rem;
+  border: 2px dashed var(--border);
+  border-radius: 12px;
+  background: transparent;
+  color: var(--text-secondary);
+  font-weight: 600;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.btn-add-lane:hover {
+  border-color: var(--primary);
+  color: var(--primary);
+}
 
-  // Update dark mode in DOM and storage
-  useEffect(() => {
-    if (isClient) {
-      document.documentElement.setAttribute('data-theme', darkMode ? 'dark' : 'light');
-      StorageService.saveToStorage(StorageService.getKeys().DARK_MODE, darkMode);
-    }
-  }, [darkMode]);
+.btn-add-lane svg {
+  width: 18px;
+  height: 18px;
+}
 
-  // Get data from controller
-  const columns = controller.getColumns();
-  const labels = controller.getLabels();
+/* Column Styles */
+.column {
+  flex-shrink: 0;
+  width: 320px;
+  background: var(--column-bg);
+  border-radius: 12px;
+  display: flex;
+  flex-direction: column;
+  max-height: calc(100vh - 180px);
+  transition: all 0.2s ease;
+}
 
-  // Compute filtered cards
-  const getFilteredCards = (columnId: string): Card[] => {
-    let cards = controller.getCardsByColumn(columnId);
+.column.drag-over {
+  background: rgba(59, 130, 246, 0.1);
+  box-shadow: 0 0 0 2px var(--primary);
+}
 
-    // Apply search filter
-    if (searchTerm) {
-      const searchResults = controller.searchCards(searchTerm);
-      cards = cards.filter(card => searchResults.some(sr => sr.id === card.id));
-    }
+.column.drop-blocked {
+  background: rgba(239, 68, 68, 0.08);
+  box-shadow: 0 0 0 2px var(--danger);
+  cursor: not-allowed;
+}
 
-    // Apply label filter
-    if (selectedLabels.length > 0) {
-      const labelFiltered = controller.filterCardsByLabels(selectedLabels);
-      cards = cards.filter(card => labelFiltered.some(lf => lf.id === card.id));
-    }
+.column.wip-reached {
+  box-shadow: inset 0 0 0 2px var(--warning);
+}
 
-    return cards;
-  };
+.column.wip-exceeded {
+  box-shadow: inset 0 0 0 2px var(--danger);
+}
 
-  // Handlers
-  const toggleTheme = () => setDarkMode(!darkMode);
+.column.dragging {
+  opacity: 0.5;
+}
 
-  const handleLabelToggle = (labelId: string) => {
-    setSelectedLabels(prev =>
-      prev.includes(labelId)
-        ? prev.filter(id => id !== labelId)
-        : [...prev, labelId]
-    );
-  };
+.column-drop-indicator {
+  flex-shrink: 0;
+  width: 4px;
+  margin: 0 -0.75rem;
+  border-radius: 2px;
+  background: var(--primary);
+  box-shadow: 0 0 0 2px rgba(59, 130, 246, 0.2);
+}
 
-  const handleAddColumn = (title: string, color: string) => {
-    controller.addColumn(title, color);
-  };
+.column-header {
+  padding: 1rem 1.25rem;
+  border-top: 4px solid;
+  border-radius: 12px 12px 0 0;
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  background: var(--surface);
+  gap: 0.5rem;
+}
 
-  const handleAddCard = (columnId: string, title: string, description: string) => {
-    controller.addCard({
-      title,
-      description,
-      columnId,
-      labels: []
-    });
-  };
+.column-header[draggable="true"] {
+  cursor: grab;
+}
 
-  const handleCardDragStart = (card: Card) => {
-    setDragState({
-      draggedCard: card,
-      sourceColumnId: card.columnId,
-      isDragging: true
-    });
-  };
+.column-drag-handle {
+  width: 20px;
+  height: 28px;
+  margin-left: -0.5rem;
+  border: none;
+  border-radius: 4px;
+  background: transparent;
+  color: var(--text-secondary);
+  cursor: grab;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  flex-shrink: 0;
+  transition: all 0.2s ease;
+}
 
-  const handleCardDragEnd = () => {
-    setDragState({
-      draggedCard: null,
-      sourceColumnId: null,
-      isDragging: false
-    });
-    setDragOverColumnId(null);
-  };
+.column-drag-handle:hover,
+.column-drag-handle:focus-visible {
+  color: var(--primary);
+  background: var(--column-bg);
+}
 
-  const handleCardDrop = (targetColumnId: string, targetOrder: number) => {
-    if (dragState.draggedCard) {
-      controller.moveCard(dragState.draggedCard.id, targetColumnId, targetOrder);
-    }
-  };
+.column-drag-handle:focus-visible {
+  outline: 2px solid var(--primary);
+}
 
-  const handleDeleteColumn = (columnId: string) => {
-    if (confirm('Deseja realmente excluir esta coluna e todos os seus cards?')) {
-      controller.deleteColumn(columnId);
-    }
-  };
+.column-drag-handle svg {
+  width: 16px;
+  height: 16px;
+}
 
-  return (
-    <div className="app">
-      <Header
-        darkMode={darkMode}
-        toggleTheme={toggleTheme}
-        onAddColumn={() => setAddColumnModal(true)}
-      />
+.column-title {
+  font-size: 1rem;
+  font-weight: 700;
+  color: var(--text);
+  cursor: pointer;
+  flex: 1;
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  transition: color 0.2s ease;
+}
 
-      <FilterBar
-        searchTerm={searchTerm}
-        onSearchChange={setSearchTerm}
-        selectedLabels={selectedLabels}
-        onLabelToggle={handleLabelToggle}
-        labels={labels}
-        onManageLabels={() => setManageLabelsModal(true)}
-      />
+.column-title:hover {
+  color: var(--primary);
+}
 
-      <main className="board-container">
-        <div className="board">
-          {columns.map(column => (
-            <ColumnComponent
-              key={column.id}
-              column={column}
-              cards={getFilteredCards(column.id)}
-              labels={labels}
-              onAddCard={() => setAddCardModal({ isOpen: true, columnId: column.id })}
-              onUpdateCard={(cardId, updates) => controller.updateCard(cardId, updates)}
-              onDeleteCard={cardId => {
-                if (confirm('Deseja realmente excluir este card?')) {
-                  controller.deleteCard(cardId);
-                }
-              }}
-              onUpdateColumn={updates => controller.updateColumn(column.id, updates)}
-              onDeleteColumn={() => handleDeleteColumn(column.id)}
-              onCardDragStart={handleCardDragStart}
-              onCardDragEnd={handleCardDragEnd}
-              onCardDrop={targetOrder => handleCardDrop(column.id, targetOrder)}
-              isDraggingOver={dragState.isDragging && dragOverColumnId === column.id}
-            />
-          ))}
-        </div>
-      </main>
+.card-count {
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  min-width: 24px;
+  height: 24px;
+  padding: 0 0.5rem;
+  background: var(--bg);
+  border-radius: 12px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  color: var(--text-secondary);
+}
 
-      {/* Modals */}
-      <AddCardModal
-        isOpen={addCardModal.isOpen}
-        onClose={() => setAddCardModal({ isOpen: false, columnId: null })}
-        onAdd={(title, description) => {
-          if (addCardModal.columnId) {
-            handleAddCard(addCardModal.columnId, title, description);
-          }
-        }}
-      />
+.wip-count-reached {
+  background: var(--warning);
+  color: white;
+}
 
-      <AddColumnModal
-        isOpen={addColumnModal}
-        onClose={() => setAddColumnModal(false)}
-        onAdd={handleAddColumn}
-      />
+.wip-count-exceeded {
+  background: var(--danger);
+  color: white;
+}
 
-      <ManageLabelsModal
-        isOpen={manageLabelsModal}
-        onClose={() => setManageLabelsModal(false)}
-        labels={labels}
-        onAddLabel={(name, color) => controller.addLabel(name, color)}
-        onUpdateLabel={(id, name) => controller.updateLabel(id, { name })}
-        onDeleteLabel={id => {
-          if (confirm('Deseja realmente excluir esta label?')) {
-            controller.deleteLabel(id);
-          }
-        }}
-      />
-    </div>
-  );
-};
+.column-title-input {
+  flex: 1;
+  padding: 0.5rem;
+  border: 2px solid var(--primary);
+  border-radius: 6px;
+  background: var(--surface);
+  color: var(--text);
+  font-size: 1rem;
+  font-weight: 700;
+}
 
-// ============================================================================
-// STYLES
-// ============================================================================
+.column-title-input:focus {
+  outline: none;
+}
 
-const APP_STYLES = `
-:root {
-  --primary: #3b82f6;
-  --primary-dark: #2563eb;
-  --success: #10b981;
-  --danger: #ef4444;
-  --warning: #f59e0b;
-  
-  --bg: #f1f5f9;
-  --surface: #ffffff;
-  --card-bg: #ffffff;
-  --text: #0f172a;
-  --text-secondary: #64748b;
-  --border: #e2e8f0;
-  --shadow: rgba(0, 0, 0, 0.1);
-  --shadow-lg: rgba(0, 0, 0, 0.15);
-  
-  --header-bg: #ffffff;
-  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.1);
-  --column-bg: #f8fafc;
+.column-actions {
+  display: flex;
+  gap: 0.5rem;
+}
+
+.btn-wip-limit,
+.btn-add-card,
+.btn-delete-column {
+  width: 32px;
+  height: 32px;
+  border: none;
+  border-radius: 6px;
+  cursor: pointer;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  transition: all 0.2s ease;
 }
 
-[data-theme="dark"] {
-  --bg: #0f172a;
-  --surface: #1e293b;
-  --card-bg: #1e293b;
-  --text: #f1f5f9;
-  --text-secondary: #94a3b8;
-  --border: #334155;
-  --shadow: rgba(0, 0, 0, 0.3);
-  --shadow-lg: rgba(0, 0, 0, 0.5);
-  
-  --header-bg: #1e293b;
-  --header-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.3);
-  --column-bg: #334155;
+.btn-add-card {
+  background: var(--primary);
+  color: white;
 }
 
-* {
-  margin: 0;
-  padding: 0;
-  box-sizing: border-box;
+.btn-add-card:hover {
+  background: var(--primary-dark);
+  transform: scale(1.05);
 }
 
-body {
-  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen',
-    'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif;
-  -webkit-font-smoothing: antialiased;
-  -moz-osx-font-smoothing: grayscale;
+.btn-wip-limit {
   background: var(--bg);
-  color: var(--text);
-  transition: background-color 0.3s ease, color 0.3s ease;
-  overflow-x: hidden;
+  color: var(--text-secondary);
 }
 
-.app {
-  min-height: 100vh;
-  display: flex;
-  flex-direction: column;
+.btn-wip-limit:hover {
+  color: var(--primary);
+  transform: scale(1.05);
 }
 
-/* Header Styles */
-.header {
-  background: var(--header-bg);
-  box-shadow: var(--header-shadow);
-  position: sticky;
-  top: 0;
-  z-index: 100;
-  transition: background-color 0.3s ease;
+.btn-delete-column {
+  background: rgba(239, 68, 68, 0.1);
+  color: var(--danger);
 }
 
-.header-content {
-  max-width: 100%;
-  margin: 0 auto;
-  padding: 1rem 2rem;
-  display: flex;
-  justify-content: space-between;
-  align-items: center;
+.btn-delete-column:hover {
+  background: var(--danger);
+  color: white;
+  transform: scale(1.05);
 }
 
-.header-title {
+.btn-wip-limit svg,
+.btn-add-card svg,
+.btn-delete-column svg {
+  width: 18px;
+  height: 18px;
+}
+
+/* Cards Container */
+.cards-container {
+  flex: 1;
+  padding: 1rem;
+  overflow-y: auto;
   display: flex;
-  align-items: center;
+  flex-direction: column;
   gap: 0.75rem;
 }
 
-.header-icon {
-  width: 32px;
-  height: 32px;
-  color: var(--primary);
+.cards-container::-webkit-scrollbar {
+  width: 8px;
 }
 
-.header h1 {
-  font-size: 1.5rem;
-  font-weight: 700;
-  color: var(--text);
+.cards-container::-webkit-scrollbar-track {
+  background: transparent;
 }
 
-.header-actions {
-  display: flex;
-  align-items: center;
-  gap: 1rem;
+.cards-container::-webkit-scrollbar-thumb {
+  background: var(--border);
+  border-radius: 4px;
 }
 
-.btn-add-column {
+.cards-container::-webkit-scrollbar-thumb:hover {
+  background: var(--text-secondary);
+}
+
+.empty-column {
+  flex: 1;
   display: flex;
   align-items: center;
-  gap: 0.5rem;
-  padding: 0.625rem 1.25rem;
+  justify-content: center;
+  text-align: center;
+  color: var(--text-secondary);
+  padding: 2rem;
+  font-size: 0.875rem;
+}
+
+.drop-indicator {
+  height: 4px;
+  margin: -0.375rem 0;
+  border-radius: 2px;
   background: var(--primary);
-  color: white;
-  border: none;
-  border-radius: 8px;
-  font-weight: 600;
-  cursor: pointer;
+  box-shadow: 0 0 0 2px rgba(59, 130, 246, 0.2);
+  flex-shrink: 0;
+}
+
+/* Card Styles */
+.card {
+  background: var(--card-bg);
+  border-radius: 10px;
+  padding: 1rem;
+  box-shadow: 0 2px 4px var(--shadow);
+  cursor: grab;
   transition: all 0.2s ease;
+  border: 1px solid var(--border);
 }
 
-.btn-add-column:hover {
-  background: var(--primary-dark);
+.card:hover {
+  box-shadow: 0 4px 12px var(--shadow-lg);
   transform: translateY(-2px);
-  box-shadow: 0 4px 12px rgba(59, 130, 246, 0.4);
 }
 
-.btn-add-column svg {
-  width: 20px;
-  height: 20px;
+.card:active {
+  cursor: grabbing;
 }
 
-.theme-toggle {
-  width: 40px;
-  height: 40px;
-  border-radius: 50%;
-  border: none;
+.card:focus-visible {
+  outline: 2px solid var(--primary);
+  outline-offset: 2px;
+}
+
+.card-header {
+  display: flex;
+  justify-content: space-between;
+  align-items: flex-start;
+  gap: 0.5rem;
+  margin-bottom: 0.75rem;
+}
+
+.card-title {
+  flex: 1;
+  font-size: 0.9375rem;
+  font-weight: 600;
+  color: var(--text);
+  cursor: text;
+  word-break: break-word;
+}
+
+.card-title:hover {
+  color: var(--primary);
+}
+
+.card-title-input {
+  flex: 1;
+  padding: 0.25rem 0.5rem;
+  border: 2px solid var(--primary);
+  border-radius: 4px;
   background: var(--surface);
   color: var(--text);
+  font-size: 0.9375rem;
+  font-weight: 600;
+}
+
+.card-title-input:focus {
+  outline: none;
+}
+
+.card-delete {
+  width: 24px;
+  height: 24px;
+  border: none;
+  border-radius: 4px;
+  background: transparent;
+  color: var(--text-secondary);
   cursor: pointer;
   display: flex;
   align-items: center;
   justify-content: center;
   transition: all 0.2s ease;
-  box-shadow: 0 2px 4px var(--shadow);
+  flex-shrink: 0;
+}
+
+.card-delete:hover {
+  background: var(--danger);
+  color: white;
+}
+
+.card-delete svg {
+  width: 14px;
+  height: 14px;
+}
+
+.card-labels {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.375rem;
+  margin-bottom: 0.75rem;
+}
+
+.card-label {
+  padding: 0.25rem 0.625rem;
+  border-radius: 4px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  color: white;
+}
+
+.card-description {
+  font-size: 0.875rem;
+  color: var(--text-secondary);
+  line-height: 1.5;
+  margin-bottom: 0.75rem;
+  word-break: break-word;
+  display: -webkit-box;
+  -webkit-line-clamp: 3;
+  -webkit-box-orient: vertical;
+  overflow: hidden;
+}
+
+.card-footer {
+  display: flex;
+  justify-content: flex-start;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+}
+
+.date-badge {
+  display: inline-flex;
+  align-items: center;
+  gap: 0.25rem;
+  padding: 0.25rem 0.5rem;
+  border-radius: 4px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  background: var(--column-bg);
+  color: var(--text-secondary);
+}
+
+.date-badge svg {
+  width: 12px;
+  height: 12px;
+}
+
+.date-badge-upcoming {
+  background: rgba(234, 179, 8, 0.15);
+  color: #a16207;
+}
+
+.date-badge-today {
+  background: var(--warning);
+  color: white;
+}
+
+.date-badge-overdue {
+  background: var(--danger);
+  color: white;
 }
 
-.theme-toggle:hover {
-  transform: scale(1.05);
-  background: var(--primary);
-  color: white;
+[data-theme="dark"] .date-badge-upcoming {
+  color: #facc15;
 }
 
-.theme-toggle svg {
-  width: 20px;
-  height: 20px;
+.priority-badge {
+  display: inline-flex;
+  align-items: center;
+  padding: 0.125rem 0.5rem;
+  border: 1px solid;
+  border-radius: 4px;
+  font-size: 0.75rem;
+  font-weight: 600;
 }
 
-/* Filter Bar */
-.filter-bar {
-  background: var(--header-bg);
-  padding: 1rem 2rem;
-  border-bottom: 1px solid var(--border);
-  display: flex;
-  gap: 1rem;
+.avatar {
+  display: inline-flex;
   align-items: center;
-  flex-wrap: wrap;
+  justify-content: center;
+  width: 24px;
+  height: 24px;
+  border-radius: 50%;
+  color: white;
+  font-size: 0.625rem;
+  font-weight: 700;
+  letter-spacing: 0.02em;
+  flex-shrink: 0;
+  user-select: none;
 }
 
-.search-box {
-  position: relative;
-  flex: 1;
-  min-width: 250px;
+.avatar-stack {
+  display: inline-flex;
+  margin-left: auto;
 }
 
-.search-box svg {
-  position: absolute;
-  left: 1rem;
-  top: 50%;
-  transform: translateY(-50%);
-  width: 20px;
-  height: 20px;
-  color: var(--text-secondary);
+.avatar-stack .avatar {
+  border: 2px solid var(--card-bg);
 }
 
-.search-box input {
-  width: 100%;
-  padding: 0.75rem 1rem 0.75rem 3rem;
-  border: 1px solid var(--border);
-  border-radius: 8px;
-  background: var(--surface);
-  color: var(--text);
-  font-size: 0.9375rem;
-  transition: all 0.2s ease;
+.avatar-stack .avatar + .avatar {
+  margin-left: -6px;
 }
 
-.search-box input:focus {
-  outline: none;
-  border-color: var(--primary);
-  box-shadow: 0 0 0 3px rgba(59, 130, 246, 0.1);
+.avatar-more {
+  background: var(--text-secondary);
 }
 
-.label-filters {
+.label-selector {
   display: flex;
-  gap: 0.5rem;
   flex-wrap: wrap;
-  align-items: center;
+  gap: 0.5rem;
 }
 
-.manage-labels-btn {
+.label-option {
   display: flex;
   align-items: center;
-  gap: 0.5rem;
-  padding: 0.5rem 1rem;
-  background: var(--surface);
-  color: var(--text);
-  border: 1px solid var(--border);
+  gap: 0.375rem;
+  padding: 0.375rem 0.75rem;
+  border: none;
   border-radius: 6px;
-  font-weight: 500;
+  color: white;
+  font-size: 0.75rem;
+  font-weight: 600;
   cursor: pointer;
   transition: all 0.2s ease;
 }
 
-.manage-labels-btn:hover {
-  background: var(--primary);
-  color: white;
-  border-color: var(--primary);
+.label-option:hover {
+  opacity: 1 !important;
+  transform: scale(1.05);
 }
 
-.manage-labels-btn svg {
-  width: 16px;
-  height: 16px;
+.label-option svg {
+  width: 14px;
+  height: 14px;
 }
 
-.label-filter {
-  padding: 0.5rem 1rem;
-  border: 2px solid;
-  border-radius: 6px;
-  background: transparent;
+.assignee-selector {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+}
+
+.assignee-option {
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  padding: 0.25rem 0.75rem 0.25rem 0.25rem;
+  border: 1px solid var(--border);
+  border-radius: 999px;
+  background: var(--surface);
+  color: var(--text);
+  font-size: 0.8125rem;
   font-weight: 500;
   cursor: pointer;
   transition: all 0.2s ease;
-  font-size: 0.875rem;
-}
-
-.label-filter:hover {
-  transform: translateY(-2px);
-  box-shadow: 0 2px 8px var(--shadow);
 }
 
-.label-filter.active {
-  font-weight: 600;
+.assignee-option:hover {
+  border-color: var(--primary);
 }
 
-/* Board Container */
-.board-container {
-  flex: 1;
-  padding: 2rem;
-  overflow-x: auto;
-  overflow-y: hidden;
+.assignee-option.selected {
+  border-color: var(--primary);
+  background: rgba(59, 130, 246, 0.1);
+  color: var(--primary);
 }
 
-.board {
+/* Modal Styles */
+.modal-overlay {
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background: rgba(0, 0, 0, 0.5);
   display: flex;
-  gap: 1.5rem;
-  min-height: calc(100vh - 200px);
-  padding-bottom: 2rem;
+  align-items: center;
+  justify-content: center;
+  z-index: 1000;
+  padding: 1rem;
 }
 
-/* Column Styles */
-.column {
-  flex-shrink: 0;
-  width: 320px;
-  background: var(--column-bg);
+.modal {
+  background: var(--surface);
   border-radius: 12px;
-  display: flex;
-  flex-direction: column;
-  max-height: calc(100vh - 180px);
-  transition: all 0.2s ease;
+  width: 100%;
+  max-width: 500px;
+  max-height: 90vh;
+  overflow-y: auto;
+  box-shadow: 0 20px 60px var(--shadow-lg);
 }
 
-.column.drag-over {
-  background: rgba(59, 130, 246, 0.1);
-  box-shadow: 0 0 0 2px var(--primary);
+.modal-large {
+  max-width: 600px;
 }
 
-.column-header {
-  padding: 1rem 1.25rem;
-  border-top: 4px solid;
-  border-radius: 12px 12px 0 0;
+.modal-header {
   display: flex;
   justify-content: space-between;
   align-items: center;
-  background: var(--surface);
-  gap: 0.5rem;
+  padding: 1.5rem;
+  border-bottom: 1px solid var(--border);
 }
 
-.column-title {
-  font-size: 1rem;
+.modal-header h2 {
+  font-size: 1.25rem;
   font-weight: 700;
   color: var(--text);
+}
+
+.modal-close {
+  width: 32px;
+  height: 32px;
+  border: none;
+  border-radius: 6px;
+  background: transparent;
+  color: var(--text-secondary);
   cursor: pointer;
-  flex: 1;
   display: flex;
   align-items: center;
-  gap: 0.5rem;
-  transition: color 0.2s ease;
+  justify-content: center;
+  transition: all 0.2s ease;
 }
 
-.column-title:hover {
-  color: var(--primary);
+.modal-close:hover {
+  background: var(--danger);
+  color: white;
 }
 
-.card-count {
-  display: inline-flex;
-  align-items: center;
-  justify-content: center;
-  min-width: 24px;
-  height: 24px;
-  padding: 0 0.5rem;
-  background: var(--bg);
-  border-radius: 12px;
-  font-size: 0.75rem;
+.modal-close svg {
+  width: 20px;
+  height: 20px;
+}
+
+.modal form {
+  padding: 1.5rem;
+}
+
+.form-group {
+  margin-bottom: 1.25rem;
+}
+
+.form-group label {
+  display: block;
+  margin-bottom: 0.5rem;
   font-weight: 600;
-  color: var(--text-secondary);
+  color: var(--text);
+  font-size: 0.875rem;
 }
 
-.column-title-input {
-  flex: 1;
-  padding: 0.5rem;
-  border: 2px solid var(--primary);
-  border-radius: 6px;
-  background: var(--surface);
+.form-group input,
+.form-group select,
+.form-group textarea {
+  width: 100%;
+  padding: 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
+  background: var(--card-bg);
   color: var(--text);
-  font-size: 1rem;
-  font-weight: 700;
+  font-size: 0.9375rem;
+  transition: all 0.2s ease;
+  font-family: inherit;
 }
 
-.column-title-input:focus {
+.form-group input:focus,
+.form-group select:focus,
+.form-group textarea:focus {
   outline: none;
+  border-color: var(--primary);
+  box-shadow: 0 0 0 3px rgba(59, 130, 246, 0.1);
 }
 
-.column-actions {
-  display: flex;
-  gap: 0.5rem;
+.form-row {
+  display: grid;
+  grid-template-columns: 1fr 1fr auto;
+  gap: 0.75rem;
+  align-items: end;
+}
+
+.form-error {
+  margin: -0.5rem 0 1rem;
+  font-size: 0.8125rem;
+  color: var(--danger);
 }
 
-.btn-add-card,
-.btn-delete-column {
-  width: 32px;
-  height: 32px;
-  border: none;
-  border-radius: 6px;
-  cursor: pointer;
-  display: flex;
-  align-items: center;
-  justify-content: center;
-  transition: all 0.2s ease;
+.form-hint {
+  font-size: 0.8125rem;
+  color: var(--text-secondary);
 }
 
-.btn-add-card {
-  background: var(--primary);
-  color: white;
+/* Import */
+.import-errors {
+  margin-bottom: 1.25rem;
+  padding: 0.75rem 1rem;
+  border: 1px solid var(--danger);
+  border-radius: 8px;
+  background: rgba(239, 68, 68, 0.08);
+  color: var(--danger);
+  font-size: 0.8125rem;
 }
 
-.btn-add-card:hover {
-  background: var(--primary-dark);
-  transform: scale(1.05);
+.import-errors p {
+  font-weight: 600;
+  margin-bottom: 0.5rem;
 }
 
-.btn-delete-column {
-  background: rgba(239, 68, 68, 0.1);
-  color: var(--danger);
+.import-errors ul {
+  max-height: 200px;
+  overflow-y: auto;
+  padding-left: 1.25rem;
+  font-family: monospace;
 }
 
-.btn-delete-column:hover {
-  background: var(--danger);
-  color: white;
-  transform: scale(1.05);
+.import-summary {
+  margin-bottom: 1.25rem;
+  color: var(--text);
+  font-size: 0.875rem;
 }
 
-.btn-add-card svg,
-.btn-delete-column svg {
-  width: 18px;
-  height: 18px;
+.import-preview-table {
+  width: 100%;
+  margin-bottom: 1rem;
+  border-collapse: collapse;
+  font-size: 0.8125rem;
+  color: var(--text);
 }
 
-/* Cards Container */
-.cards-container {
-  flex: 1;
-  padding: 1rem;
+.import-preview {
+  max-height: 320px;
   overflow-y: auto;
-  display: flex;
-  flex-direction: column;
-  gap: 0.75rem;
 }
 
-.cards-container::-webkit-scrollbar {
-  width: 8px;
+.import-preview-table th,
+.import-preview-table td {
+  padding: 0.375rem 0.5rem;
+  border-bottom: 1px solid var(--border);
+  text-align: left;
 }
 
-.cards-container::-webkit-scrollbar-track {
-  background: transparent;
+.import-preview-table th {
+  position: sticky;
+  top: 0;
+  background: var(--surface);
+  color: var(--text-secondary);
+  font-weight: 600;
 }
 
-.cards-container::-webkit-scrollbar-thumb {
-  background: var(--border);
-  border-radius: 4px;
+.import-warnings {
+  padding-left: 1.25rem;
+  font-size: 0.8125rem;
+  color: var(--warning);
 }
 
-.cards-container::-webkit-scrollbar-thumb:hover {
-  background: var(--text-secondary);
+.import-result {
+  padding: 1.5rem;
+  color: var(--text);
 }
 
-.empty-column {
-  flex: 1;
-  display: flex;
-  align-items: center;
-  justify-content: center;
-  text-align: center;
+.import-result ul {
+  margin-top: 0.5rem;
+  padding-left: 1.25rem;
   color: var(--text-secondary);
-  padding: 2rem;
-  font-size: 0.875rem;
 }
 
-/* Card Styles */
-.card {
-  background: var(--card-bg);
-  border-radius: 10px;
-  padding: 1rem;
-  box-shadow: 0 2px 4px var(--shadow);
-  cursor: grab;
+.member-form-row {
+  grid-template-columns: 1fr 5rem 1fr auto;
+}
+
+.color-picker {
+  display: grid;
+  grid-template-columns: repeat(6, 1fr);
+  gap: 0.5rem;
+}
+
+.color-option {
+  width: 40px;
+  height: 40px;
+  border: 3px solid transparent;
+  border-radius: 8px;
+  cursor: pointer;
   transition: all 0.2s ease;
-  border: 1px solid var(--border);
 }
 
-.card:hover {
-  box-shadow: 0 4px 12px var(--shadow-lg);
-  transform: translateY(-2px);
+.color-option:hover {
+  transform: scale(1.1);
 }
 
-.card:active {
-  cursor: grabbing;
+.color-option.selected {
+  border-color: var(--text);
+  box-shadow: 0 0 0 2px var(--surface), 0 0 0 4px var(--text);
 }
 
-.card-header {
+.modal-actions {
   display: flex;
-  justify-content: space-between;
-  align-items: flex-start;
-  gap: 0.5rem;
-  margin-bottom: 0.75rem;
+  gap: 0.75rem;
+  justify-content: flex-end;
+  margin-top: 1.5rem;
 }
 
-.card-title {
-  flex: 1;
-  font-size: 0.9375rem;
+.btn-primary,
+.btn-secondary {
+  padding: 0.75rem 1.5rem;
+  border: none;
+  border-radius: 8px;
   font-weight: 600;
-  color: var(--text);
-  cursor: text;
-  word-break: break-word;
+  cursor: pointer;
+  transition: all 0.2s ease;
+  font-size: 0.9375rem;
 }
 
-.card-title:hover {
-  color: var(--primary);
+.btn-primary {
+  background: var(--primary);
+  color: white;
 }
 
-.card-title-input {
-  flex: 1;
-  padding: 0.25rem 0.5rem;
-  border: 2px solid var(--primary);
-  border-radius: 4px;
+.btn-primary:hover:not(:disabled) {
+  background: var(--primary-dark);
+  transform: translateY(-2px);
+  box-shadow: 0 4px 12px rgba(59, 130, 246, 0.4);
+}
+
+.btn-primary:disabled,
+.btn-secondary:disabled {
+  opacity: 0.5;
+  cursor: not-allowed;
+}
+
+.btn-secondary {
   background: var(--surface);
   color: var(--text);
-  font-size: 0.9375rem;
-  font-weight: 600;
+  border: 1px solid var(--border);
 }
 
-.card-title-input:focus {
-  outline: none;
+.btn-secondary:hover {
+  background: var(--border);
 }
 
-.card-delete {
-  width: 24px;
-  height: 24px;
+.btn-danger {
+  margin-right: auto;
+  padding: 0.75rem 1.5rem;
   border: none;
-  border-radius: 4px;
+  border-radius: 8px;
   background: transparent;
-  color: var(--text-secondary);
+  color: var(--danger);
+  font-weight: 600;
   cursor: pointer;
-  display: flex;
-  align-items: center;
-  justify-content: center;
   transition: all 0.2s ease;
-  flex-shrink: 0;
 }
 
-.card-delete:hover {
+.btn-danger:hover {
   background: var(--danger);
   color: white;
 }
 
-.card-delete svg {
+/* Card Detail */
+.checklist-badge {
+  display: inline-flex;
+  align-items: center;
+  gap: 0.25rem;
+  padding: 0.25rem 0.5rem;
+  border-radius: 4px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  background: var(--column-bg);
+  color: var(--text-secondary);
+}
+
+.checklist-badge svg {
+  width: 12px;
+  height: 12px;
+}
+
+.comment-badge {
+  display: inline-flex;
+  align-items: center;
+  gap: 0.25rem;
+  font-size: 0.75rem;
+  font-weight: 600;
+  color: var(--text-secondary);
+}
+
+.comment-badge svg {
   width: 14px;
   height: 14px;
 }
 
-.card-labels {
+.comments {
   display: flex;
-  flex-wrap: wrap;
-  gap: 0.375rem;
-  margin-bottom: 0.75rem;
+  flex-direction: column;
+  gap: 0.75rem;
 }
 
-.card-label {
-  padding: 0.25rem 0.625rem;
-  border-radius: 4px;
-  font-size: 0.75rem;
-  font-weight: 600;
-  color: white;
+.comment-list {
+  list-style: none;
+  display: flex;
+  flex-direction: column;
+  gap: 0.75rem;
 }
 
-.card-description {
-  font-size: 0.875rem;
+.comment {
+  display: flex;
+  gap: 0.625rem;
+  align-items: flex-start;
+}
+
+.comment-content {
+  flex: 1;
+  min-width: 0;
+}
+
+.comment-meta {
+  display: flex;
+  align-items: baseline;
+  gap: 0.5rem;
+  font-size: 0.8125rem;
+  color: var(--text);
+}
+
+.comment-meta time,
+.comment-meta span {
+  font-size: 0.75rem;
   color: var(--text-secondary);
-  line-height: 1.5;
-  margin-bottom: 0.75rem;
-  cursor: text;
-  min-height: 20px;
-  word-break: break-word;
 }
 
-.card-description:hover {
+.comment-body {
+  margin-top: 0.25rem;
+  padding: 0.5rem 0.75rem;
+  border-radius: 8px;
+  background: var(--column-bg);
+  font-size: 0.875rem;
   color: var(--text);
+  white-space: pre-wrap;
+  word-break: break-word;
 }
 
-.card-description-textarea {
+.comment-content textarea,
+.comment-add textarea {
   width: 100%;
-  padding: 0.5rem;
-  border: 2px solid var(--primary);
-  border-radius: 6px;
+  padding: 0.5rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 8px;
   background: var(--surface);
   color: var(--text);
-  font-size: 0.875rem;
   font-family: inherit;
+  font-size: 0.875rem;
   resize: vertical;
-  margin-bottom: 0.75rem;
-}
-
-.card-description-textarea:focus {
-  outline: none;
 }
 
-.card-footer {
+.comment-actions {
   display: flex;
-  justify-content: flex-start;
+  justify-content: flex-end;
+  gap: 0.5rem;
+  margin-top: 0.25rem;
 }
 
-.btn-add-label {
-  display: flex;
-  align-items: center;
-  gap: 0.375rem;
-  padding: 0.375rem 0.75rem;
-  background: var(--surface);
-  border: 1px solid var(--border);
-  border-radius: 6px;
+.comment-action {
+  border: none;
+  background: none;
   color: var(--text-secondary);
-  font-size: 0.8125rem;
-  font-weight: 500;
+  font-size: 0.75rem;
   cursor: pointer;
-  transition: all 0.2s ease;
+  text-decoration: underline;
 }
 
-.btn-add-label:hover {
-  background: var(--primary);
-  border-color: var(--primary);
-  color: white;
+.comment-action:hover {
+  color: var(--primary);
 }
 
-.btn-add-label svg {
-  width: 14px;
-  height: 14px;
+.comment-add {
+  display: flex;
+  flex-direction: column;
+  align-items: flex-end;
+  gap: 0.5rem;
 }
 
-.label-selector {
-  margin-top: 0.75rem;
-  padding-top: 0.75rem;
-  border-top: 1px solid var(--border);
+.checklist-badge.complete {
+  background: var(--success);
+  color: white;
+}
+
+.checklists {
   display: flex;
-  flex-wrap: wrap;
-  gap: 0.5rem;
+  flex-direction: column;
+  gap: 1.25rem;
 }
 
-.label-option {
+.checklist-header {
   display: flex;
   align-items: center;
-  gap: 0.375rem;
-  padding: 0.375rem 0.75rem;
-  border: none;
+  gap: 0.5rem;
+}
+
+.checklist-title-input {
+  flex: 1;
+  padding: 0.375rem 0.5rem;
+  border: 1px solid transparent;
   border-radius: 6px;
-  color: white;
-  font-size: 0.75rem;
+  background: transparent;
+  color: var(--text);
+  font-size: 0.9375rem;
   font-weight: 600;
-  cursor: pointer;
-  transition: all 0.2s ease;
 }
 
-.label-option:hover {
-  opacity: 1 !important;
-  transform: scale(1.05);
+.checklist-title-input:hover,
+.checklist-title-input:focus {
+  outline: none;
+  border-color: var(--border);
+  background: var(--bg);
 }
 
-.label-option svg {
-  width: 14px;
-  height: 14px;
+.checklist-progress-text {
+  font-size: 0.75rem;
+  font-weight: 600;
+  color: var(--text-secondary);
 }
 
-/* Modal Styles */
-.modal-overlay {
-  position: fixed;
-  top: 0;
-  left: 0;
-  right: 0;
-  bottom: 0;
-  background: rgba(0, 0, 0, 0.5);
-  display: flex;
-  align-items: center;
-  justify-content: center;
-  z-index: 1000;
-  padding: 1rem;
+.checklist-progress {
+  height: 6px;
+  margin: 0.5rem 0;
+  border-radius: 3px;
+  background: var(--column-bg);
+  overflow: hidden;
 }
 
-.modal {
-  background: var(--surface);
-  border-radius: 12px;
-  width: 100%;
-  max-width: 500px;
-  max-height: 90vh;
-  overflow-y: auto;
-  box-shadow: 0 20px 60px var(--shadow-lg);
+.checklist-progress-bar {
+  height: 100%;
+  background: var(--success);
+  transition: width 0.2s ease;
 }
 
-.modal-large {
-  max-width: 600px;
+.checklist-items {
+  list-style: none;
+  display: flex;
+  flex-direction: column;
+  gap: 0.25rem;
 }
 
-.modal-header {
+.checklist-item {
   display: flex;
-  justify-content: space-between;
   align-items: center;
-  padding: 1.5rem;
-  border-bottom: 1px solid var(--border);
+  gap: 0.5rem;
 }
 
-.modal-header h2 {
-  font-size: 1.25rem;
-  font-weight: 700;
-  color: var(--text);
+.checklist-item input[type="checkbox"] {
+  width: 16px;
+  height: 16px;
+  accent-color: var(--success);
+  cursor: pointer;
 }
 
-.modal-close {
-  width: 32px;
-  height: 32px;
-  border: none;
-  border-radius: 6px;
+.checklist-item-input {
+  flex: 1;
+  padding: 0.25rem 0.5rem;
+  border: 1px solid transparent;
+  border-radius: 4px;
   background: transparent;
+  color: var(--text);
+  font-size: 0.875rem;
+}
+
+.checklist-item-input:hover,
+.checklist-item-input:focus {
+  outline: none;
+  border-color: var(--border);
+  background: var(--bg);
+}
+
+.checklist-item.done .checklist-item-input {
   color: var(--text-secondary);
-  cursor: pointer;
+  text-decoration: line-through;
+}
+
+.checklist-add {
   display: flex;
-  align-items: center;
-  justify-content: center;
-  transition: all 0.2s ease;
+  gap: 0.5rem;
+  margin-top: 0.5rem;
 }
 
-.modal-close:hover {
-  background: var(--danger);
-  color: white;
+.checklist-add input {
+  flex: 1;
+  padding: 0.5rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  background: var(--bg);
+  color: var(--text);
+  font-size: 0.875rem;
 }
 
-.modal-close svg {
-  width: 20px;
-  height: 20px;
+.checklist-add input:focus {
+  outline: none;
+  border-color: var(--primary);
 }
 
-.modal form {
-  padding: 1.5rem;
+.checklist-add .btn-secondary {
+  padding: 0.5rem 1rem;
 }
 
-.form-group {
-  margin-bottom: 1.25rem;
+.card-detail-section {
+  margin-top: 1.5rem;
+  padding-top: 1.25rem;
+  border-top: 1px solid var(--border);
 }
 
-.form-group label {
-  display: block;
-  margin-bottom: 0.5rem;
+.card-detail-section h3 {
+  font-size: 1rem;
   font-weight: 600;
   color: var(--text);
-  font-size: 0.875rem;
+  margin-bottom: 0.75rem;
 }
 
-.form-group input,
-.form-group select,
-.form-group textarea {
-  width: 100%;
-  padding: 0.75rem;
-  border: 1px solid var(--border);
-  border-radius: 8px;
-  background: var(--card-bg);
+.activity-list {
+  list-style: none;
+  display: flex;
+  flex-direction: column;
+  gap: 0.5rem;
+  max-height: 200px;
+  overflow-y: auto;
+}
+
+.activity-item {
+  font-size: 0.8125rem;
   color: var(--text);
-  font-size: 0.9375rem;
-  transition: all 0.2s ease;
-  font-family: inherit;
 }
 
-.form-group input:focus,
-.form-group select:focus,
-.form-group textarea:focus {
-  outline: none;
-  border-color: var(--primary);
-  box-shadow: 0 0 0 3px rgba(59, 130, 246, 0.1);
+.activity-item-header {
+  display: flex;
+  justify-content: space-between;
+  gap: 1rem;
 }
 
-.form-row {
-  display: grid;
-  grid-template-columns: 1fr 1fr auto;
-  gap: 0.75rem;
-  align-items: end;
+.activity-item time {
+  flex-shrink: 0;
+  color: var(--text-secondary);
 }
 
-.color-picker {
-  display: grid;
-  grid-template-columns: repeat(6, 1fr);
-  gap: 0.5rem;
+.activity-changes {
+  margin-top: 0.25rem;
+  color: var(--text-secondary);
 }
 
-.color-option {
-  width: 40px;
-  height: 40px;
-  border: 3px solid transparent;
-  border-radius: 8px;
+.activity-changes summary {
   cursor: pointer;
-  transition: all 0.2s ease;
+  font-size: 0.75rem;
 }
 
-.color-option:hover {
-  transform: scale(1.1);
+.activity-changes ul {
+  list-style: none;
+  margin-top: 0.25rem;
+  padding-left: 0.75rem;
+  border-left: 2px solid var(--border);
+  word-break: break-word;
 }
 
-.color-option.selected {
-  border-color: var(--text);
-  box-shadow: 0 0 0 2px var(--surface), 0 0 0 4px var(--text);
+.activity-feed {
+  display: flex;
+  flex-direction: column;
+  gap: 1rem;
+  padding: 1.5rem;
 }
 
-.modal-actions {
+.activity-feed .activity-list {
+  max-height: 60vh;
+}
+
+/* Keyboard Shortcuts */
+.shortcut-list {
+  margin: 0;
+  padding: 1.5rem;
   display: flex;
+  flex-direction: column;
   gap: 0.75rem;
-  justify-content: flex-end;
-  margin-top: 1.5rem;
 }
 
-.btn-primary,
-.btn-secondary {
-  padding: 0.75rem 1.5rem;
-  border: none;
-  border-radius: 8px;
-  font-weight: 600;
-  cursor: pointer;
-  transition: all 0.2s ease;
-  font-size: 0.9375rem;
+.shortcut-item {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 1rem;
 }
 
-.btn-primary {
-  background: var(--primary);
-  color: white;
+.shortcut-item dt {
+  display: flex;
+  gap: 0.25rem;
+  flex-wrap: wrap;
 }
 
-.btn-primary:hover {
-  background: var(--primary-dark);
-  transform: translateY(-2px);
-  box-shadow: 0 4px 12px rgba(59, 130, 246, 0.4);
+.shortcut-item dd {
+  margin: 0;
+  color: var(--text-secondary);
+  font-size: 0.875rem;
+  text-align: right;
 }
 
-.btn-secondary {
-  background: var(--surface);
-  color: var(--text);
+.shortcut-item kbd {
+  padding: 0.125rem 0.5rem;
   border: 1px solid var(--border);
-}
-
-.btn-secondary:hover {
-  background: var(--border);
+  border-bottom-width: 2px;
+  border-radius: 4px;
+  background: var(--column-bg);
+  color: var(--text);
+  font-family: inherit;
+  font-size: 0.75rem;
+  white-space: nowrap;
 }
 
 /* Labels Management */
@@ -2208,6 +9953,29 @@ body {
   outline: none;
 }
 
+.btn-current-member {
+  padding: 0.375rem 0.75rem;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  background: transparent;
+  color: var(--text-secondary);
+  font-size: 0.75rem;
+  font-weight: 600;
+  cursor: pointer;
+  transition: all 0.2s ease;
+}
+
+.btn-current-member:hover {
+  color: var(--primary);
+  border-color: var(--primary);
+}
+
+.btn-current-member.active {
+  background: var(--primary);
+  border-color: var(--primary);
+  color: white;
+}
+
 .btn-delete-label {
   width: 32px;
   height: 32px;
@@ -2280,7 +10048,8 @@ body {
     width: 280px;
   }
 
-  .form-row {
+  .form-row,
+  .member-form-row {
     grid-template-columns: 1fr;
   }
 }
@@ -2302,6 +10071,12 @@ body {
   animation: fadeIn 0.3s ease-out;
 }
 
+@keyframes syncPulse {
+  50% {
+    opacity: 0.3;
+  }
+}
+
 /* Scrollbar Styling */
 ::-webkit-scrollbar {
   width: 10px;
@@ -6,6 +6,6 @@ import App from './App'
 hydrateRoot(
   document.getElementById('root') as HTMLElement,
   <StrictMode>
-    <App />
+    <App url={`${window.location.pathname}${window.location.search}`} initialState={window.__INITIAL_STATE__} />
   </StrictMode>,
 )
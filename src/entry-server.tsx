@@ -3,12 +3,18 @@ import {
   type RenderToPipeableStreamOptions,
   renderToPipeableStream,
 } from 'react-dom/server'
-import App from './App'
+import App, { type InitialState } from './App'
 
-export function render(_url: string, options?: RenderToPipeableStreamOptions) {
+export { parseRoute } from './App'
+
+export function render(
+  url: string,
+  initialState: InitialState,
+  options?: RenderToPipeableStreamOptions,
+) {
   return renderToPipeableStream(
     <StrictMode>
-      <App />
+      <App url={url} initialState={initialState} />
     </StrictMode>,
     options,
   )
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_PERSISTENCE?: 'api' | 'local';
+}
+
+interface Window {
+  __INITIAL_STATE__?: import('./App').InitialState;
+}